@@ -1,36 +1,90 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { FractalType, type FractalParameters, type LightSettings, type Face } from './types';
+import type {
+  FractalParameters, LightSettings, FractalMesh, FractalInstances, StlFormat, GltfFormat, PlyFormat, ExportMaterial, ImageRenderOptions,
+  TurntableSettings, AutoRotateSettings, ProgressExportKind, MaterialSettings, ColoringSettings, CameraProjection, CameraView, StandardView, Vector3D,
+} from './types';
 // Vector3D is not directly used for THREE objects here, THREE.Vector3 is preferred.
-import { DEFAULT_FRACTAL_PARAMS, DEFAULT_LIGHT_SETTINGS, AUTO_ROTATE_DELAY, AUTO_ROTATE_SPEED } from './constants';
+import {
+  DEFAULT_FRACTAL_PARAMS, DEFAULT_LIGHT_SETTINGS, AUTO_ROTATE_DELAY, AUTO_ROTATE_MAX_STEP, DEFAULT_AUTO_ROTATE_SETTINGS,
+  DEFAULT_MATERIAL_SETTINGS,
+  DEFAULT_MEMORY_BUDGET_MB, MEMORY_BUDGET_REFUSE_FACTOR, AUTOSAVE_DELAY,
+  HISTORY_LIMIT, HISTORY_COALESCE_DELAY, GEOMETRY_CACHE_MAX_ENTRIES, CAMERA_TRANSITION_DURATION,
+} from './constants';
 import ControlsPanel from './components/ControlsPanel';
 import Modal from './components/Modal';
-import { IconOpenPanel, IconClosePanel, IconRotateOn, IconRotateOff } from './components/Icons';
-import { generateSierpinskiTetrahedron, generateMengerSponge, generateSierpinskiOctahedron } from './utils/fractalGeneration';
-import { exportToObjFile } from './utils/objExporter';
-import { debounce } from './utils/helpers';
+import { IconOpenPanel, IconClosePanel, IconRotateOn, IconRotateOff, IconUndo, IconRedo } from './components/Icons';
+import { createFractalWorkerClient, type FractalWorkerClient } from './utils/fractalWorkerClient';
+import { exportToObjFile, openObjExportSink } from './utils/objExporter';
+import type { ExportSink } from './utils/exportSink';
+import { exportToStlFile } from './utils/stlExporter';
+import { exportToGltfFile } from './utils/gltfExporter';
+import { exportToPlyFile } from './utils/plyExporter';
+import { exportToVoxFile, getVoxGridDimension, VOX_MAX_DIMENSION } from './utils/voxExporter';
+import { exportRenderedImage } from './utils/imageRenderer';
+import { exportTurntable } from './utils/turntableExporter';
+import {
+  applyMaterialSettings, applySurfaceColor, createFractalMaterial, isDoubleSidedMaterial, setInstanceColors, syncWireframeOverlay,
+} from './utils/fractalMaterial';
+import { colorizeMesh, computeInstanceColors, needsFullMeshPreview } from './utils/vertexColors';
+import {
+  applyCameraView, captureCameraView, convertCameraView, easeInOutCubic, fitCameraView, getStandardViewDirection,
+  interpolateCameraView, setCameraAspect, type ViewCamera,
+} from './utils/cameraViews';
+import { debounce, isAbortError } from './utils/helpers';
+import { getFractalDefinition } from './utils/fractalRegistry';
+import { estimateFractalSize, formatBytes, formatCount } from './utils/sizeEstimator';
+import { getInstancesBoundingSphere } from './utils/fractalInstances';
+import { decodeShareableState, encodeShareableState } from './utils/urlState';
+import { loadAutosave, saveAutosave, type PresetSnapshot } from './utils/presets';
+import {
+  discardHistoryEntry, EMPTY_HISTORY, getChangeKey, recordHistory, redoHistory, undoHistory, type SettingsHistory,
+} from './utils/history';
+import { createGeometryCache, getGeometryCacheKey } from './utils/geometryCache';
 
 // Explicitly type THREE from window due to CDN loading; types.ts provides global THREE namespace
 const THREE = window.THREE;
-type ThreeVector3 = THREE.Vector3; // Alias for convenience if needed, or use THREE.Vector3 directly
 
 const App: React.FC = () => {
-  const [fractalParams, setFractalParams] = useState<FractalParameters>(DEFAULT_FRACTAL_PARAMS);
-  const [lightSettings, setLightSettings] = useState<LightSettings>(DEFAULT_LIGHT_SETTINGS);
+  // State carried by a shared link, read once on load; without one the last session is restored
+  const [urlState] = useState(() => decodeShareableState(window.location.hash));
+  const [autosave] = useState(() => (urlState.fractalParams ? null : loadAutosave()));
+  const [fractalParams, setFractalParams] = useState<FractalParameters>(urlState.fractalParams ?? autosave?.fractalParams ?? DEFAULT_FRACTAL_PARAMS);
+  const [lightSettings, setLightSettings] = useState<LightSettings>(urlState.lightSettings ?? autosave?.lightSettings ?? DEFAULT_LIGHT_SETTINGS);
   
   const [isControlsPanelVisible, setIsControlsPanelVisible] = useState(true);
-  const [isContinuousAutoRotateOn, setIsContinuousAutoRotateOn] = useState(false);
+  const [isContinuousAutoRotateOn, setIsContinuousAutoRotateOn] = useState(urlState.autoRotate ?? false);
+  const [autoRotateSettings, setAutoRotateSettings] = useState<AutoRotateSettings>(
+    urlState.autoRotateSettings ?? autosave?.autoRotateSettings ?? DEFAULT_AUTO_ROTATE_SETTINGS
+  );
+  const [materialSettings, setMaterialSettings] = useState<MaterialSettings>(
+    urlState.materialSettings ?? autosave?.materialSettings ?? DEFAULT_MATERIAL_SETTINGS
+  );
+  const [cameraProjection, setCameraProjection] = useState<CameraProjection>(
+    urlState.camera?.projection ?? autosave?.cameraProjection ?? 'perspective'
+  );
+  const [keepViewOnRegenerate, setKeepViewOnRegenerate] = useState(false);
   const [isAutoRotatingByInactivity, setIsAutoRotatingByInactivity] = useState(false);
   const [isUserInteracting, setIsUserInteracting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState(0);
   const [isPreviewDisabled, setIsPreviewDisabled] = useState<boolean>(false);
+  const [isInstancedPreview, setIsInstancedPreview] = useState(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null); // null when no OBJ or VOX export is running
+  const [exportKind, setExportKind] = useState<ProgressExportKind>('obj'); // The export exportProgress belongs to
+  const [imageRenderProgress, setImageRenderProgress] = useState<number | null>(null); // null when no image or turntable is being rendered
 
   const [modalMessage, setModalMessage] = useState<string | null>(null);
+  const [overBudgetMessage, setOverBudgetMessage] = useState<string | null>(null); // Pending confirmation for an over-budget generation
+  const [memoryBudgetMB, setMemoryBudgetMB] = useState(DEFAULT_MEMORY_BUDGET_MB);
+  const [cameraChangeCount, setCameraChangeCount] = useState(0); // Bumped when the view settles, to refresh the URL hash
+  const [history, setHistory] = useState<SettingsHistory>(EMPTY_HISTORY);
 
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const cameraRef = useRef<ViewCamera | null>(null); // The camera of the current projection
+  const camerasRef = useRef<{ perspective: THREE.PerspectiveCamera; orthographic: THREE.OrthographicCamera } | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<THREE.OrbitControls | null>(null);
   const fractalMeshRef = useRef<THREE.Mesh | null>(null);
@@ -40,8 +94,45 @@ const App: React.FC = () => {
   const fillLightRef = useRef<THREE.DirectionalLight | null>(null);
   const hemisphereLightRef = useRef<THREE.HemisphereLight | null>(null);
 
-  const generatedVerticesRef = useRef<ThreeVector3[]>([]);
-  const generatedFacesRef = useRef<Face[]>([]);
+  const generatedMeshRef = useRef<FractalMesh | null>(null);
+  const generatedInstancesRef = useRef<FractalInstances | null>(null); // Set instead of the mesh by an instanced preview
+  const previewSourceMeshRef = useRef<FractalMesh | null>(null); // The mesh the preview geometry was built from; split for branch coloring
+  const workerClientRef = useRef<FractalWorkerClient | null>(null);
+  // A second worker for .vox rasterization, so that exports and generations never cancel each other
+  const exportWorkerClientRef = useRef<FractalWorkerClient | null>(null);
+  const geometryCacheRef = useRef(createGeometryCache(GEOMETRY_CACHE_MAX_ENTRIES));
+  const boundingSphereRef = useRef<THREE.Sphere | null>(null); // Of the previewed fractal, for fitting the camera
+  // Animated camera move, advanced by the animation loop
+  const cameraTransitionRef = useRef<{ from: CameraView; to: CameraView; start: number } | null>(null);
+
+  const exportAbortControllerRef = useRef<AbortController | null>(null);
+  const imageRenderAbortControllerRef = useRef<AbortController | null>(null);
+
+  // Read by generateFractalLogic without making budget edits trigger a regeneration
+  const memoryBudgetMBRef = useRef(memoryBudgetMB);
+  memoryBudgetMBRef.current = memoryBudgetMB;
+  const overBudgetConfirmedRef = useRef(false);
+  // Starts at the restored params, so refusing the first generation keeps what the link or autosave loaded
+  const lastAcceptedParamsRef = useRef<FractalParameters>(fractalParams);
+  // Camera from a shared link, applied instead of the automatic framing after the first generation
+  const pendingCameraRef = useRef<CameraView | null>(urlState.camera ?? null);
+  // The settings the history recorder last saw, and the field and time of the last recorded edit
+  const historySnapshotRef = useRef<PresetSnapshot>({ fractalParams, lightSettings, materialSettings });
+  const lastHistoryChangeRef = useRef<{ key: string; time: number } | null>(null);
+  const skipHistoryRecordRef = useRef(false); // Set for changes made by undo, redo and rollbacks
+  // Read by generateFractalLogic without making the option trigger a regeneration
+  const keepViewOnRegenerateRef = useRef(keepViewOnRegenerate);
+  keepViewOnRegenerateRef.current = keepViewOnRegenerate;
+  const materialSettingsRef = useRef(materialSettings);
+  materialSettingsRef.current = materialSettings;
+  const coloringRef = useRef(fractalParams.coloring);
+  coloringRef.current = fractalParams.coloring;
+  // Read by the animation loop, which is set up once
+  const autoRotateSettingsRef = useRef(autoRotateSettings);
+  autoRotateSettingsRef.current = autoRotateSettings;
+  const shouldAutoRotateRef = useRef(false);
+  // Paused while an image renders, so that its tiles line up
+  shouldAutoRotateRef.current = imageRenderProgress === null && (isContinuousAutoRotateOn || (isAutoRotatingByInactivity && !isUserInteracting));
 
   const inactivityTimeoutIdRef = useRef<number | null>(null);
   const animationFrameIdRef = useRef<number | null>(null);
@@ -69,8 +160,14 @@ const App: React.FC = () => {
     sceneRef.current = new THREE.Scene();
     sceneRef.current.background = new THREE.Color(0x111827);
 
-    cameraRef.current = new THREE.PerspectiveCamera(75, container.clientWidth / container.clientHeight, 0.1, 1000);
-    cameraRef.current.position.set(0, fractalParams.size * 0.8, fractalParams.size * 2.5);
+    const aspect = container.clientWidth / container.clientHeight;
+    const perspectiveCamera = new THREE.PerspectiveCamera(75, aspect, 0.1, 1000);
+    perspectiveCamera.position.set(0, fractalParams.size * 0.8, fractalParams.size * 2.5);
+    // Its frustum is derived from the perspective view when the projection is switched
+    const orthographicCamera = new THREE.OrthographicCamera(-aspect, aspect, 1, -1, 0.1, 1000);
+    camerasRef.current = { perspective: perspectiveCamera, orthographic: orthographicCamera };
+    // The restored projection; the first generation then fits the view or applies the linked one
+    cameraRef.current = cameraProjection === 'orthographic' ? orthographicCamera : perspectiveCamera;
 
 
     rendererRef.current = new THREE.WebGLRenderer({ canvas: canvasRef.current, antialias: true, alpha: false });
@@ -110,16 +207,22 @@ const App: React.FC = () => {
     controlsRef.current.dampingFactor = 0.05;
     controlsRef.current.target.set(0,0,0);
 
-    const handleInteractionStart = () => setIsUserInteracting(true);
-    const handleInteractionEnd = () => setIsUserInteracting(false);
+    const handleInteractionStart = () => {
+      cameraTransitionRef.current = null; // Dragging takes over from an animated camera move
+      setIsUserInteracting(true);
+    };
+    const handleInteractionEnd = () => {
+      setIsUserInteracting(false);
+      setCameraChangeCount(count => count + 1);
+    };
     controlsRef.current.addEventListener('start', handleInteractionStart);
     controlsRef.current.addEventListener('end', handleInteractionEnd);
 
     // Resize listener
     const handleResize = () => {
-      if (cameraRef.current && rendererRef.current && container) {
-        cameraRef.current.aspect = container.clientWidth / container.clientHeight;
-        cameraRef.current.updateProjectionMatrix();
+      if (camerasRef.current && rendererRef.current && container) {
+        setCameraAspect(camerasRef.current.perspective, container.clientWidth / container.clientHeight);
+        setCameraAspect(camerasRef.current.orthographic, container.clientWidth / container.clientHeight);
         rendererRef.current.setSize(container.clientWidth, container.clientHeight);
       }
     };
@@ -128,23 +231,37 @@ const App: React.FC = () => {
     // Initial fractal generation call done via generateFractalLogic useEffect
     // No direct call here as generateFractalLogic's dependencies will trigger it.
 
-    // Animation loop
-    const animate = () => {
+    // Animation loop. Auto-rotation advances with the elapsed time, not the frame count.
+    let lastFrameTime = performance.now();
+    const animate = (time: number) => {
       animationFrameIdRef.current = requestAnimationFrame(animate);
+      const elapsedSeconds = Math.min((time - lastFrameTime) / 1000, AUTO_ROTATE_MAX_STEP);
+      lastFrameTime = time;
+      const transition = cameraTransitionRef.current;
+      if (transition && cameraRef.current && controlsRef.current) {
+        const t = Math.min((time - transition.start) / CAMERA_TRANSITION_DURATION, 1);
+        applyCameraView(cameraRef.current, controlsRef.current, interpolateCameraView(transition.from, transition.to, easeInOutCubic(t)), container.clientWidth / container.clientHeight);
+        if (t === 1) {
+          cameraTransitionRef.current = null;
+          setCameraChangeCount(count => count + 1);
+        }
+      }
       if(controlsRef.current) controlsRef.current.update();
 
       if (fractalMeshRef.current && sceneRef.current?.getObjectByName("fractalMesh")) {
-        const shouldRotate = isContinuousAutoRotateOn || (isAutoRotatingByInactivity && !isUserInteracting);
-        if (shouldRotate) {
-          fractalMeshRef.current.rotation.y += AUTO_ROTATE_SPEED;
-          fractalMeshRef.current.rotation.x += AUTO_ROTATE_SPEED * 0.3;
+        if (shouldAutoRotateRef.current) {
+          const { speed, axisWeights } = autoRotateSettingsRef.current;
+          const angle = (speed * Math.PI / 180) * elapsedSeconds;
+          fractalMeshRef.current.rotation.x += angle * axisWeights.x;
+          fractalMeshRef.current.rotation.y += angle * axisWeights.y;
+          fractalMeshRef.current.rotation.z += angle * axisWeights.z;
         }
       }
       if(rendererRef.current && sceneRef.current && cameraRef.current) {
         rendererRef.current.render(sceneRef.current, cameraRef.current);
       }
     };
-    animate();
+    animate(lastFrameTime);
 
     return () => {
       window.removeEventListener('resize', handleResize);
@@ -171,16 +288,192 @@ const App: React.FC = () => {
     if (hemisphereLightRef.current) hemisphereLightRef.current.intensity = lightSettings.hemisphereIntensity;
   }, [lightSettings]);
 
+  // Update the material of the current mesh; new meshes pick the settings up in generateFractalLogic
+  useEffect(() => {
+    const mesh = fractalMeshRef.current;
+    if (!mesh || Array.isArray(mesh.material)) return;
+    applyMaterialSettings(mesh.material as THREE.MeshStandardMaterial, materialSettings, getFractalDefinition(fractalParams.type));
+    syncWireframeOverlay(mesh, materialSettings.wireframe);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [materialSettings]);
+
+  // The mesh to draw or export and its vertex colors; a solid coloring is left to the material color
+  const getColoredMesh = (mesh: FractalMesh, coloring: ColoringSettings) =>
+    coloring.mode === 'solid' ? { mesh, colors: null } : colorizeMesh(mesh, coloring, fractalParams.color);
+
+  const buildPreviewGeometry = ({ mesh, colors }: { mesh: FractalMesh; colors: Uint8Array | null }): THREE.BufferGeometry => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(mesh.positions, 3));
+    geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+    if (colors) geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3, true));
+    geometry.computeVertexNormals();
+    previewSourceMeshRef.current = mesh;
+    return geometry;
+  };
+
+  // Recolor the current mesh without regenerating it. Vertex colors are rewritten in place when the
+  // geometry already has them for the same vertices; otherwise (e.g. entering or leaving branch
+  // coloring, which splits vertices) the geometry is rebuilt.
+  useEffect(() => {
+    const object = fractalMeshRef.current;
+    if (!object || Array.isArray(object.material)) return;
+    const coloring = fractalParams.coloring;
+    const material = object.material as THREE.MeshStandardMaterial;
+    if (object instanceof THREE.InstancedMesh) {
+      // The generation effect replaces it with the full mesh
+      if (!generatedInstancesRef.current || needsFullMeshPreview(coloring)) return;
+      setInstanceColors(object, computeInstanceColors(generatedInstancesRef.current, coloring));
+      applySurfaceColor(material, fractalParams.color, coloring.mode === 'solid' ? 'material' : 'instance');
+      return;
+    }
+    const mesh = generatedMeshRef.current;
+    if (!mesh) return;
+    const colored = getColoredMesh(mesh, coloring);
+    const colorAttribute = object.geometry.getAttribute('color');
+    if (colored.colors && colorAttribute && colored.mesh === previewSourceMeshRef.current) {
+      (colorAttribute.array as Uint8Array).set(colored.colors);
+      colorAttribute.needsUpdate = true;
+    } else if (colored.colors || colorAttribute) {
+      const previousGeometry = object.geometry;
+      object.geometry = buildPreviewGeometry(colored);
+      previousGeometry.dispose();
+      // The overlay still draws the old geometry
+      syncWireframeOverlay(object, false);
+      syncWireframeOverlay(object, materialSettingsRef.current.wireframe);
+    }
+    applySurfaceColor(material, fractalParams.color, colored.colors ? 'vertex' : 'material');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fractalParams.coloring]);
+
+
+  // Generation workers are created lazily and torn down with the component
+  useEffect(() => {
+    return () => {
+      workerClientRef.current?.dispose();
+      workerClientRef.current = null;
+      exportWorkerClientRef.current?.dispose();
+      exportWorkerClientRef.current = null;
+    };
+  }, []);
+
+  // Records every settings change in the undo history. Declared before the generation effect so that
+  // a refused edit's entry exists by the time it is rolled back.
+  useEffect(() => {
+    const previous = historySnapshotRef.current;
+    const current = { fractalParams, lightSettings, materialSettings };
+    historySnapshotRef.current = current;
+    const skip = skipHistoryRecordRef.current;
+    skipHistoryRecordRef.current = false;
+    const changeKey = getChangeKey(previous, current);
+    if (skip || !changeKey) {
+      lastHistoryChangeRef.current = null;
+      return;
+    }
+    const now = performance.now();
+    const lastChange = lastHistoryChangeRef.current;
+    const coalesce = lastChange !== null && lastChange.key === changeKey && now - lastChange.time < HISTORY_COALESCE_DELAY;
+    lastHistoryChangeRef.current = { key: changeKey, time: now };
+    setHistory(h => recordHistory(h, previous, coalesce, HISTORY_LIMIT));
+  }, [fractalParams, lightSettings, materialSettings]);
+
+  // Rolls back a refused generation to the last accepted params without recording the rollback,
+  // dropping the refused edit's history entry when it is the newest one
+  const revertToLastAcceptedParams = () => {
+    const accepted = lastAcceptedParamsRef.current;
+    const current = historySnapshotRef.current;
+    if (accepted === current.fractalParams) return;
+    skipHistoryRecordRef.current = true;
+    setHistory(h => discardHistoryEntry(h, { ...current, fractalParams: accepted }));
+    setFractalParams(accepted);
+  };
+
+  const getCanvasAspect = () => {
+    const container = canvasContainerRef.current;
+    return container ? container.clientWidth / container.clientHeight : 1;
+  };
+
+  // Moves to the view, switching the projection first if it differs. Animated moves start from the
+  // current view converted to the new projection and are advanced by the animation loop.
+  // Only uses refs and state setters, so stale closures of it are safe to call.
+  const goToCameraView = (view: CameraView, animate: boolean) => {
+    const cameras = camerasRef.current;
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!cameras || !camera || !controls) return;
+    const nextCamera = cameras[view.projection];
+    const from = convertCameraView(captureCameraView(camera, controls.target), view.projection, cameras.perspective.fov);
+    if (nextCamera !== camera) {
+      cameraRef.current = nextCamera;
+      controls.object = nextCamera;
+      applyCameraView(nextCamera, controls, from, getCanvasAspect());
+      setCameraProjection(view.projection);
+    }
+    if (animate) {
+      cameraTransitionRef.current = { from, to: view, start: performance.now() };
+      return;
+    }
+    cameraTransitionRef.current = null;
+    applyCameraView(nextCamera, controls, view, getCanvasAspect());
+    controls.update();
+    setCameraChangeCount(count => count + 1);
+  };
+
+  // Fits the whole fractal in view, looking from `direction` or else from the current direction
+  const fitCameraToObject = (animate: boolean, direction?: Vector3D) => {
+    const sphere = boundingSphereRef.current;
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!sphere || !camera || !controls || !camerasRef.current) return;
+    const current = captureCameraView(camera, controls.target);
+    const viewDirection = direction ?? {
+      x: current.position.x - current.target.x,
+      y: current.position.y - current.target.y,
+      z: current.position.z - current.target.z,
+    };
+    const { x, y, z } = sphere.center;
+    goToCameraView(
+      fitCameraView(current.projection, { x, y, z }, sphere.radius, viewDirection, camerasRef.current.perspective.fov, getCanvasAspect()),
+      animate
+    );
+  };
+
+  // Only changes of this, not every coloring edit, regenerate
+  const coloringNeedsFullMesh = needsFullMeshPreview(fractalParams.coloring);
 
   // Fractal Generation Logic
   const generateFractalLogic = useCallback(async () => {
-    setIsLoading(true);
-    await new Promise(resolve => setTimeout(resolve, 20)); // Allow UI to update for loading indicator
+    const definition = getFractalDefinition(fractalParams.type);
+    const useInstances = isInstancedPreview && !isPreviewDisabled && !coloringNeedsFullMesh && !!definition.instancing;
+    const budgetBytes = memoryBudgetMBRef.current * 1024 * 1024;
+    const cacheKey = getGeometryCacheKey(fractalParams, useInstances ? 'instances' : 'mesh');
+    // A cached result is already in memory, so it skips the budget checks
+    const cached = geometryCacheRef.current.get(cacheKey);
+    if (!cached) {
+      const estimate = estimateFractalSize(fractalParams, useInstances);
+      const estimateSummary = estimate.instances !== undefined
+        ? `インスタンス ${formatCount(estimate.instances)} / 約 ${formatBytes(estimate.bytes)}`
+        : `頂点 ${formatCount(estimate.vertices)} / 面 ${formatCount(estimate.faces)} / 約 ${formatBytes(estimate.bytes)}`;
+      if (estimate.bytes > budgetBytes * MEMORY_BUDGET_REFUSE_FACTOR) {
+        showMessage(`予測サイズ (${estimateSummary}) がメモリ予算 ${formatBytes(budgetBytes)} を大きく超えるため、生成を中止しました。`);
+        revertToLastAcceptedParams();
+        return;
+      }
+      if (estimate.bytes > budgetBytes && !overBudgetConfirmedRef.current) {
+        setOverBudgetMessage(`予測サイズ (${estimateSummary}) がメモリ予算 ${formatBytes(budgetBytes)} を超えています。\nブラウザが応答しなくなる可能性があります。生成しますか？`);
+        return;
+      }
+    }
+    overBudgetConfirmedRef.current = false;
+    lastAcceptedParamsRef.current = fractalParams;
 
+    setIsLoading(true);
+    setGenerationProgress(0);
 
     if (fractalMeshRef.current && sceneRef.current) {
         sceneRef.current.remove(fractalMeshRef.current);
+        syncWireframeOverlay(fractalMeshRef.current, false);
         fractalMeshRef.current.geometry.dispose();
+        if (fractalMeshRef.current instanceof THREE.InstancedMesh) fractalMeshRef.current.dispose();
         if (Array.isArray(fractalMeshRef.current.material)) {
             fractalMeshRef.current.material.forEach(m => m.dispose());
         } else {
@@ -189,60 +482,97 @@ const App: React.FC = () => {
         fractalMeshRef.current = null;
     }
     
-    generatedVerticesRef.current = [];
-    generatedFacesRef.current = [];
+    generatedMeshRef.current = null;
+    generatedInstancesRef.current = null;
+    previewSourceMeshRef.current = null;
 
     try {
-      let output;
-      if (fractalParams.type === FractalType.SierpinskiTetrahedron) {
-        output = generateSierpinskiTetrahedron(fractalParams.level, fractalParams.size);
-      } else if (fractalParams.type === FractalType.MengerSponge) {
-        output = generateMengerSponge(fractalParams.level, fractalParams.size);
-      } else { 
-        output = generateSierpinskiOctahedron(fractalParams.level, fractalParams.size);
+      if (!workerClientRef.current) {
+        workerClientRef.current = createFractalWorkerClient();
       }
+      // Starting a new generation cancels the previous one, so only the latest params are applied
+      let mesh: FractalMesh | null = null;
+      let instances: FractalInstances | null = null;
+      if (cached) {
+        workerClientRef.current.cancel(); // A generation still running would replace the cached result
+        ({ mesh, instances } = cached);
+      } else if (useInstances) {
+        instances = await workerClientRef.current.generateInstances(fractalParams, setGenerationProgress);
+      } else {
+        mesh = await workerClientRef.current.generate(fractalParams, setGenerationProgress);
+      }
+      generatedMeshRef.current = mesh;
+      generatedInstancesRef.current = instances;
+      if (!cached) geometryCacheRef.current.set(cacheKey, { mesh, instances }, budgetBytes);
+      const primitivePositions = instances ? instances.primitivePositions : mesh!.positions;
 
-      generatedVerticesRef.current = output.exportVertices;
-      generatedFacesRef.current = output.exportFaces;
-
-      if (output.exportVertices.length === 0 && fractalParams.level > (fractalParams.type === FractalType.MengerSponge ? -1 : 0)) {
+      if (primitivePositions.length === 0 || instances?.transforms.length === 0) {
          showMessage("生成されたジオメトリがありません。レベルや設定を確認してください。");
-      } else if (output.exportVertices.length > 0) {
+      } else {
         if (!isPreviewDisabled && sceneRef.current && cameraRef.current && controlsRef.current) {
-            const geometry = new THREE.BufferGeometry();
-            geometry.setAttribute('position', new THREE.Float32BufferAttribute(output.bufferVertices, 3));
-            geometry.setIndex(output.bufferIndices);
-            geometry.computeVertexNormals();
-
-            const material = new THREE.MeshStandardMaterial({
-              color: new THREE.Color(fractalParams.color),
-              metalness: 0.15,
-              roughness: 0.8,
-              flatShading: false, 
-              side: (fractalParams.type === FractalType.MengerSponge || fractalParams.type === FractalType.SierpinskiOctahedron) ? THREE.DoubleSide : THREE.FrontSide,
-            });
+            const coloring = coloringRef.current;
+            let geometry: THREE.BufferGeometry;
+            if (instances) {
+              geometry = new THREE.BufferGeometry();
+              geometry.setAttribute('position', new THREE.Float32BufferAttribute(primitivePositions, 3));
+              geometry.setIndex(new THREE.BufferAttribute(instances.primitiveIndices, 1));
+              geometry.computeVertexNormals();
+            } else {
+              geometry = buildPreviewGeometry(getColoredMesh(mesh!, coloring));
+            }
+
+            const material = createFractalMaterial(fractalParams.color, materialSettingsRef.current, definition);
+            applySurfaceColor(material, fractalParams.color, coloring.mode === 'solid' ? 'material' : instances ? 'instance' : 'vertex');
             
-            fractalMeshRef.current = new THREE.Mesh(geometry, material);
+            if (instances) {
+              const { transforms } = instances;
+              const instancedMesh = new THREE.InstancedMesh(geometry, material, transforms.length / 4);
+              // Writes the uniform-scale-plus-translation matrices straight into the column-major buffer
+              const matrices = instancedMesh.instanceMatrix.array;
+              for (let i = 0; i < transforms.length / 4; i++) {
+                const scale = transforms[i * 4 + 3];
+                matrices[i * 16] = scale;
+                matrices[i * 16 + 5] = scale;
+                matrices[i * 16 + 10] = scale;
+                matrices[i * 16 + 12] = transforms[i * 4];
+                matrices[i * 16 + 13] = transforms[i * 4 + 1];
+                matrices[i * 16 + 14] = transforms[i * 4 + 2];
+                matrices[i * 16 + 15] = 1;
+              }
+              instancedMesh.instanceMatrix.needsUpdate = true;
+              setInstanceColors(instancedMesh, computeInstanceColors(instances, coloring));
+              instancedMesh.frustumCulled = false; // The geometry's bounds cover one leaf, not the whole set
+              fractalMeshRef.current = instancedMesh;
+            } else {
+              fractalMeshRef.current = new THREE.Mesh(geometry, material);
+            }
             fractalMeshRef.current.name = "fractalMesh";
             fractalMeshRef.current.castShadow = true;
             fractalMeshRef.current.receiveShadow = true;
+            syncWireframeOverlay(fractalMeshRef.current, materialSettingsRef.current.wireframe);
             sceneRef.current.add(fractalMeshRef.current);
 
-            if (geometry.boundingSphere === null) { 
-                geometry.computeBoundingSphere();
+            let boundingSphere: THREE.Sphere | null = null;
+            if (instances) {
+              const { center, radius } = getInstancesBoundingSphere(instances);
+              boundingSphere = new THREE.Sphere(new THREE.Vector3(...center), radius);
+            } else {
+              if (geometry.boundingSphere === null) { 
+                  geometry.computeBoundingSphere();
+              }
+              boundingSphere = geometry.boundingSphere;
             }
 
-            if (geometry.boundingSphere && cameraRef.current && controlsRef.current) { // Ensure camera and controls are defined
-                const boundingSphere = geometry.boundingSphere;
-                const objectSize = boundingSphere.radius;
-                const fov = cameraRef.current.fov * (Math.PI / 180);
-                const distance = Math.abs(objectSize / Math.sin(fov / 2)) * 1.2; 
-                cameraRef.current.position.z = Math.max(distance, fractalParams.size * 1.5); 
-                cameraRef.current.position.y = objectSize * 0.5; 
-                cameraRef.current.lookAt(boundingSphere.center);
-                controlsRef.current.target.copy(boundingSphere.center);
-                controlsRef.current.update(); 
+            const pendingCamera = pendingCameraRef.current;
+            pendingCameraRef.current = null;
+            const keepView = keepViewOnRegenerateRef.current && boundingSphereRef.current !== null;
+            boundingSphereRef.current = boundingSphere;
+            if (pendingCamera) {
+                goToCameraView(pendingCamera, false);
+            } else if (!keepView) {
+                fitCameraToObject(false);
             }
+            setCameraChangeCount(count => count + 1);
         } else if (isPreviewDisabled) {
             // Removed showMessage call for "計算完了。プレビューは無効です。OBJエクスポートが可能です。"
         }
@@ -250,13 +580,13 @@ const App: React.FC = () => {
 
 
     } catch (error: any) {
+      if (isAbortError(error)) return; // Superseded by a newer generation, which owns the loading state
       console.error("Fractal generation error:", error);
       showMessage(`エラー: ${error.message || '不明な生成エラー'}`);
-    } finally {
-      setIsLoading(false);
     }
+    setIsLoading(false);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [fractalParams.type, fractalParams.level, fractalParams.size, fractalParams.color, isPreviewDisabled]); 
+  }, [fractalParams.type, fractalParams.level, fractalParams.size, fractalParams.color, fractalParams.ifs, fractalParams.escapeTime, fractalParams.surface, isPreviewDisabled, isInstancedPreview, coloringNeedsFullMesh]); 
 
   // Trigger fractal generation when relevant params change
   useEffect(() => {
@@ -283,22 +613,319 @@ const App: React.FC = () => {
     };
   }, [isUserInteracting, isContinuousAutoRotateOn]);
 
-  const handleExportObj = () => {
-    if (generatedVerticesRef.current.length > 0 && generatedFacesRef.current.length > 0) {
-      exportToObjFile(fractalParams.type, fractalParams.level, fractalParams.size, generatedVerticesRef.current, generatedFacesRef.current);
-      showMessage("OBJファイルがエクスポートされました。");
-    } else {
-      showMessage("エクスポートするデータがありません。まずフラクタルを生成してください。");
+  const writeShareableHash = () => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    const hash = encodeShareableState({
+      fractalParams,
+      lightSettings,
+      materialSettings,
+      autoRotate: isContinuousAutoRotateOn,
+      autoRotateSettings,
+      camera: pendingCameraRef.current ?? (camera && controls
+        ? captureCameraView(camera, controls.target)
+        : { projection: 'perspective', position: { x: 0, y: 0, z: 0 }, target: { x: 0, y: 0, z: 0 }, orthographicHalfHeight: 0 }),
+    });
+    window.history.replaceState(null, '', `#${hash}`);
+  };
+
+  // Keeps the URL hash in sync, so the address bar always holds a shareable link
+  useEffect(() => {
+    writeShareableHash();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fractalParams, lightSettings, materialSettings, isContinuousAutoRotateOn, autoRotateSettings, cameraChangeCount]);
+
+  // Autosaves the session shortly after the settings stop changing
+  useEffect(() => {
+    const timeoutId = window.setTimeout(
+      () => saveAutosave({ fractalParams, lightSettings, materialSettings, autoRotateSettings, cameraProjection }),
+      AUTOSAVE_DELAY
+    );
+    return () => clearTimeout(timeoutId);
+  }, [fractalParams, lightSettings, materialSettings, autoRotateSettings, cameraProjection]);
+
+  const handleCopyLink = async () => {
+    writeShareableHash();
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showMessage("現在の設定へのリンクをコピーしました。");
+    } catch (error) {
+      console.error("Clipboard error:", error);
+      showMessage(`リンクをコピーできませんでした。アドレスバーのURLを共有してください。\n${window.location.href}`);
+    }
+  };
+
+  // Exporters that write vertex colors multiply them with the material color, so it is white then
+  const buildExportMaterial = (): ExportMaterial => ({
+    color: fractalParams.coloring.mode === 'solid' ? fractalParams.color : '#ffffff',
+    metalness: materialSettings.metalness,
+    roughness: materialSettings.roughness,
+    doubleSided: isDoubleSidedMaterial(materialSettings, getFractalDefinition(fractalParams.type)),
+    opacity: materialSettings.opacity,
+    emissive: materialSettings.emissive,
+  });
+
+  // Hands the full mesh to an exporter. After an instanced preview it is first expanded in the worker,
+  // which shows the generation progress and is subject to the memory budget like a generation.
+  // Resolves to whether the exporter was called.
+  const withExportMesh = async (exportMesh: (mesh: FractalMesh) => void | Promise<void>): Promise<boolean> => {
+    if (!generatedMeshRef.current && generatedInstancesRef.current && workerClientRef.current) {
+      const estimate = estimateFractalSize(fractalParams);
+      const budgetBytes = memoryBudgetMBRef.current * 1024 * 1024;
+      if (estimate.bytes > budgetBytes * MEMORY_BUDGET_REFUSE_FACTOR) {
+        showMessage(`エクスポート用のメッシュ (頂点 ${formatCount(estimate.vertices)} / 面 ${formatCount(estimate.faces)} / 約 ${formatBytes(estimate.bytes)}) がメモリ予算 ${formatBytes(budgetBytes)} を大きく超えるため、展開を中止しました。`);
+        return false;
+      }
+      setIsLoading(true);
+      setGenerationProgress(0);
+      try {
+        generatedMeshRef.current = await workerClientRef.current.generate(fractalParams, setGenerationProgress);
+        geometryCacheRef.current.set(getGeometryCacheKey(fractalParams, 'mesh'), { mesh: generatedMeshRef.current, instances: null }, budgetBytes);
+      } catch (error: any) {
+        if (isAbortError(error)) return false; // Superseded by a new generation
+        console.error("Mesh expansion error:", error);
+        showMessage(`エラー: ${error.message || '不明な生成エラー'}`);
+        setIsLoading(false);
+        return false;
+      }
+      setIsLoading(false);
+    }
+    const mesh = generatedMeshRef.current;
+    if (mesh && mesh.indices.length > 0) {
+      await exportMesh(mesh);
+      return true;
+    }
+    showMessage("エクスポートするデータがありません。まずフラクタルを生成してください。");
+    return false;
+  };
+
+  const handleExportObj = async (includeNormals: boolean, includeMaterial: boolean, groupByBranch: boolean) => {
+    // The save dialog is opened first: expanding an instanced preview would outlast the click's user activation
+    let sink: ExportSink;
+    try {
+      sink = await openObjExportSink(fractalParams.type, fractalParams.level, fractalParams.size, includeMaterial);
+    } catch (error: any) {
+      if (isAbortError(error)) return; // Save dialog dismissed
+      console.error("OBJ export error:", error);
+      showMessage(`エラー: ${error.message || '不明なエクスポートエラー'}`);
+      return;
+    }
+    const exported = await withExportMesh(mesh => exportObjMesh(mesh, sink, includeNormals, includeMaterial, groupByBranch));
+    if (!exported) await sink.abort();
+  };
+
+  const exportObjMesh = async (mesh: FractalMesh, sink: ExportSink, includeNormals: boolean, includeMaterial: boolean, groupByBranch: boolean) => {
+    const abortController = new AbortController();
+    exportAbortControllerRef.current = abortController;
+    setExportKind('obj');
+    setExportProgress(0);
+    try {
+      const colored = getColoredMesh(mesh, fractalParams.coloring);
+      await exportToObjFile(fractalParams.type, fractalParams.level, fractalParams.size, colored.mesh, sink, {
+        includeNormals,
+        material: includeMaterial ? buildExportMaterial() : undefined,
+        groupByBranch,
+        colors: colored.colors ?? undefined,
+        onProgress: setExportProgress,
+        signal: abortController.signal,
+      });
+      showMessage(includeMaterial ? "OBJ + MTL (zip) がエクスポートされました。" : "OBJファイルがエクスポートされました。");
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        showMessage("エクスポートをキャンセルしました。");
+      } else {
+        console.error("OBJ export error:", error);
+        showMessage(`エラー: ${error.message || '不明なエクスポートエラー'}`);
+      }
+    } finally {
+      exportAbortControllerRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleConfirmOverBudget = () => {
+    setOverBudgetMessage(null);
+    overBudgetConfirmedRef.current = true;
+    generateFractalLogic();
+  };
+
+  const handleCancelOverBudget = () => {
+    setOverBudgetMessage(null);
+    revertToLastAcceptedParams();
+  };
+
+  const handleCancelExport = () => {
+    exportAbortControllerRef.current?.abort();
+  };
+
+  const handleExportStl = (format: StlFormat) => withExportMesh(mesh => {
+    exportToStlFile(fractalParams.type, fractalParams.level, fractalParams.size, mesh, format);
+    showMessage(`STLファイル (${format === 'binary' ? 'バイナリ' : 'ASCII'}) がエクスポートされました。`);
+  });
+
+  const handleExportGltf = (format: GltfFormat) => withExportMesh(mesh => {
+    const colored = getColoredMesh(mesh, fractalParams.coloring);
+    exportToGltfFile(fractalParams.type, fractalParams.level, fractalParams.size, colored.mesh, buildExportMaterial(), format, colored.colors ?? undefined);
+    showMessage(`${format === 'glb' ? 'GLB' : 'glTF'}ファイルがエクスポートされました。`);
+  });
+
+  const handleExportPly = (format: PlyFormat, includeColors: boolean, includeDepth: boolean) => withExportMesh(mesh => {
+    // Without colors the mesh is written as generated; branch coloring would split its vertices
+    const colored = includeColors ? colorizeMesh(mesh, fractalParams.coloring, fractalParams.color) : { mesh, colors: undefined };
+    exportToPlyFile(
+      fractalParams.type,
+      fractalParams.level,
+      fractalParams.size,
+      colored.mesh,
+      {
+        format,
+        colors: colored.colors,
+        scalarProperty: includeDepth ? { name: 'depth', type: 'uchar', values: colored.mesh.vertexDepths } : undefined,
+      }
+    );
+    showMessage(`PLYファイル (${format === 'binary' ? 'バイナリ' : 'ASCII'}) がエクスポートされました。`);
+  });
+
+  // Rasterizes in the worker with the export progress bar; the grid is written once it arrives
+  const handleExportVox = async (resolution: number) => {
+    const dimension = getVoxGridDimension(fractalParams.type, fractalParams.level, resolution);
+    if (dimension === null) {
+      showMessage('このフラクタルはVOXエクスポートに対応していません。');
+      return;
+    }
+    if (dimension > VOX_MAX_DIMENSION) {
+      showMessage(`ボクセルグリッド (${dimension}³) が .vox の上限 ${VOX_MAX_DIMENSION}³ を超えています。レベルまたは解像度を下げてください。`);
+      return;
+    }
+    if (!exportWorkerClientRef.current) {
+      exportWorkerClientRef.current = createFractalWorkerClient();
+    }
+    const abortController = new AbortController();
+    exportAbortControllerRef.current = abortController;
+    setExportKind('vox');
+    setExportProgress(0);
+    try {
+      const { type, level, size, color } = fractalParams;
+      const grid = await exportWorkerClientRef.current.voxelize({ type, level, resolution }, setExportProgress, abortController.signal);
+      exportToVoxFile(type, level, size, color, grid);
+      showMessage(`VOXファイル (${dimension}³) がエクスポートされました。`);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        showMessage("エクスポートをキャンセルしました。");
+      } else {
+        console.error("VOX export error:", error);
+        showMessage(`エラー: ${error.message || '不明なエクスポートエラー'}`);
+      }
+    } finally {
+      exportAbortControllerRef.current = null;
+      setExportProgress(null);
     }
   };
   
+  const applyHistorySnapshot = (snapshot: PresetSnapshot, nextHistory: SettingsHistory) => {
+    const current = historySnapshotRef.current;
+    // The recorder only runs when something changed, so only then may it consume the skip flag
+    if (
+      snapshot.fractalParams !== current.fractalParams ||
+      snapshot.lightSettings !== current.lightSettings ||
+      snapshot.materialSettings !== current.materialSettings
+    ) {
+      skipHistoryRecordRef.current = true;
+    }
+    setHistory(nextHistory);
+    setFractalParams(snapshot.fractalParams);
+    setLightSettings(snapshot.lightSettings);
+    setMaterialSettings(snapshot.materialSettings);
+    setOverBudgetMessage(null); // The pending confirmation was for the settings being left
+  };
+
+  // Undo would swap the settings under a running image or turntable render, so it waits for the render to end
+  const isRenderingImage = imageRenderProgress !== null;
+
+  const handleUndo = () => {
+    if (isRenderingImage) return;
+    const result = undoHistory(history, historySnapshotRef.current);
+    if (result) applyHistorySnapshot(result.snapshot, result.history);
+  };
+
+  const handleRedo = () => {
+    if (isRenderingImage) return;
+    const result = redoHistory(history, historySnapshotRef.current);
+    if (result) applyHistorySnapshot(result.snapshot, result.history);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+      const target = e.target;
+      if (target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && (target.type === 'text' || target.type === 'number'))) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history, isRenderingImage]);
+
+  // Runs an offscreen render of the preview with progress and cancellation; auto-rotation pauses meanwhile
+  const runImageRender = async (render: (scene: THREE.Scene, camera: ViewCamera, controls: THREE.OrbitControls, signal: AbortSignal) => Promise<void>, doneMessage: string) => {
+    if (!sceneRef.current || !cameraRef.current || !controlsRef.current || !fractalMeshRef.current) {
+      showMessage("レンダリングするプレビューがありません。まずフラクタルを生成してください。");
+      return;
+    }
+    const abortController = new AbortController();
+    imageRenderAbortControllerRef.current = abortController;
+    setImageRenderProgress(0);
+    try {
+      await render(sceneRef.current, cameraRef.current, controlsRef.current, abortController.signal);
+      showMessage(doneMessage);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        showMessage("レンダリングをキャンセルしました。");
+      } else {
+        console.error("Image render error:", error);
+        showMessage(`エラー: ${error.message || '不明なレンダリングエラー'}`);
+      }
+    } finally {
+      imageRenderAbortControllerRef.current = null;
+      setImageRenderProgress(null);
+    }
+  };
+
+  const handleRenderImage = (options: ImageRenderOptions) => runImageRender(
+    (scene, camera, _controls, signal) =>
+      exportRenderedImage(fractalParams.type, fractalParams.level, fractalParams.size, scene, camera, options, setImageRenderProgress, signal),
+    `画像 (${options.width}×${options.height} px) がエクスポートされました。`
+  );
+
+  const handleExportTurntable = (settings: TurntableSettings, options: ImageRenderOptions) => runImageRender(
+    (scene, camera, controls, signal) => exportTurntable(
+      fractalParams.type, fractalParams.level, fractalParams.size, scene, camera, controls.target, settings, options, setImageRenderProgress, signal
+    ),
+    `ターンテーブル (${settings.frames} フレーム, ${options.width}×${options.height} px) がエクスポートされました。`
+  );
+
+  const handleCameraProjectionChange = (projection: CameraProjection) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls || !camerasRef.current) return;
+    goToCameraView(convertCameraView(captureCameraView(camera, controls.target), projection, camerasRef.current.perspective.fov), false);
+  };
+
+  const handleStandardView = (view: StandardView) => fitCameraToObject(true, getStandardViewDirection(view));
+
+  const getCurrentCameraView = (): CameraView | null =>
+    cameraRef.current && controlsRef.current ? captureCameraView(cameraRef.current, controlsRef.current.target) : null;
+
   const handleToggleControlsPanel = () => {
     setIsControlsPanelVisible(prev => !prev);
     // Ensure canvas resizes after panel animation (if any) or visibility change
     setTimeout(() => {
-        if (canvasContainerRef.current && cameraRef.current && rendererRef.current) {
-            cameraRef.current.aspect = canvasContainerRef.current.clientWidth / canvasContainerRef.current.clientHeight;
-            cameraRef.current.updateProjectionMatrix();
+        if (canvasContainerRef.current && camerasRef.current && rendererRef.current) {
+            setCameraAspect(camerasRef.current.perspective, getCanvasAspect());
+            setCameraAspect(camerasRef.current.orthographic, getCanvasAspect());
             rendererRef.current.setSize(canvasContainerRef.current.clientWidth, canvasContainerRef.current.clientHeight);
         }
     }, 50); // Adjust timeout if needed
@@ -335,6 +962,26 @@ const App: React.FC = () => {
           {isContinuousAutoRotateOn ? <IconRotateOff /> : <IconRotateOn />}
         </button>
       </div>
+      <div className="fixed top-4 right-4 z-50 flex gap-2">
+        <button
+          title="元に戻す (Ctrl+Z)"
+          onClick={handleUndo}
+          disabled={isRenderingImage || history.past.length === 0}
+          aria-label="元に戻す"
+          className="bg-gray-600 hover:bg-gray-500 text-white font-bold p-2 rounded-lg shadow-md transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          <IconUndo />
+        </button>
+        <button
+          title="やり直す (Ctrl+Shift+Z)"
+          onClick={handleRedo}
+          disabled={isRenderingImage || history.future.length === 0}
+          aria-label="やり直す"
+          className="bg-gray-600 hover:bg-gray-500 text-white font-bold p-2 rounded-lg shadow-md transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          <IconRedo />
+        </button>
+      </div>
 
       {isControlsPanelVisible && (
         <ControlsPanel
@@ -344,10 +991,38 @@ const App: React.FC = () => {
           setLightSettings={setLightSettings}
           onGenerate={generateFractalLogic}
           onExportObj={handleExportObj}
+          onExportStl={handleExportStl}
+          onExportGltf={handleExportGltf}
+          onExportPly={handleExportPly}
+          onExportVox={handleExportVox}
+          onRenderImage={handleRenderImage}
+          onExportTurntable={handleExportTurntable}
+          autoRotateSettings={autoRotateSettings}
+          cameraProjection={cameraProjection}
+          onCameraProjectionChange={handleCameraProjectionChange}
+          onStandardView={handleStandardView}
+          onFitToObject={() => fitCameraToObject(true)}
+          keepViewOnRegenerate={keepViewOnRegenerate}
+          setKeepViewOnRegenerate={setKeepViewOnRegenerate}
+          getCameraView={getCurrentCameraView}
+          onGoToCameraView={(view) => goToCameraView(view, true)}
+          setAutoRotateSettings={setAutoRotateSettings}
+          materialSettings={materialSettings}
+          setMaterialSettings={setMaterialSettings}
+          isRenderingImage={isRenderingImage}
+          canRenderImage={!isPreviewDisabled && !!fractalMeshRef.current}
+          exportProgress={exportProgress}
+          exportKind={exportKind}
+          onCancelExport={handleCancelExport}
           isGenerating={isLoading}
-          canExport={generatedVerticesRef.current.length > 0 && generatedFacesRef.current.length > 0}
+          canExport={(!!generatedMeshRef.current && generatedMeshRef.current.indices.length > 0) || !!generatedInstancesRef.current}
           isPreviewDisabled={isPreviewDisabled}
           setIsPreviewDisabled={setIsPreviewDisabled}
+          isInstancedPreview={isInstancedPreview}
+          setIsInstancedPreview={setIsInstancedPreview}
+          onCopyLink={handleCopyLink}
+          memoryBudgetMB={memoryBudgetMB}
+          setMemoryBudgetMB={setMemoryBudgetMB}
         />
       )}
 
@@ -355,7 +1030,20 @@ const App: React.FC = () => {
         <canvas ref={canvasRef} id="fractalCanvas" className="w-full h-full block" aria-label="3D Fractal Visualization"/>
         {isLoading && (
           <div className="absolute inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center text-white text-xl z-20" role="status" aria-live="polite">
-            <div className="animate-pulse">生成中...</div>
+            <div className="animate-pulse">生成中... {Math.floor(generationProgress * 100)}%</div>
+          </div>
+        )}
+        {imageRenderProgress !== null && (
+          <div className="absolute inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center text-white text-xl z-20" role="status" aria-live="polite">
+            <div className="flex flex-col items-center gap-3">
+              <div className="animate-pulse">レンダリング中... {Math.floor(imageRenderProgress * 100)}%</div>
+              <button
+                onClick={() => imageRenderAbortControllerRef.current?.abort()}
+                className="bg-red-600 hover:bg-red-700 text-white text-base font-bold py-2 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-50"
+              >
+                キャンセル
+              </button>
+            </div>
           </div>
         )}
         {isPreviewDisabled && !isLoading && !fractalMeshRef.current && (
@@ -366,6 +1054,13 @@ const App: React.FC = () => {
       </div>
 
       <Modal isOpen={!!modalMessage} message={modalMessage || ''} onClose={() => setModalMessage(null)} />
+      <Modal
+        isOpen={!!overBudgetMessage && !modalMessage}
+        message={overBudgetMessage || ''}
+        onClose={handleCancelOverBudget}
+        onConfirm={handleConfirmOverBudget}
+        confirmLabel="生成する"
+      />
     </div>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import type { CameraBookmark, CameraProjection, CameraView, StandardView } from '../types';
+import { loadCameraBookmarks, saveCameraBookmarks } from '../utils/cameraBookmarks';
+
+interface CameraPanelProps {
+  projection: CameraProjection;
+  onProjectionChange: (projection: CameraProjection) => void;
+  onStandardView: (view: StandardView) => void;
+  onFitToObject: () => void;
+  keepViewOnRegenerate: boolean;
+  setKeepViewOnRegenerate: React.Dispatch<React.SetStateAction<boolean>>;
+  getCameraView: () => CameraView | null;
+  onGoToView: (view: CameraView) => void; // Animates to the view
+}
+
+const STANDARD_VIEWS: { view: StandardView; label: string }[] = [
+  { view: 'front', label: '正面' },
+  { view: 'top', label: '上面' },
+  { view: 'side', label: '側面' },
+  { view: 'isometric', label: '等角' },
+];
+
+const CameraPanel: React.FC<CameraPanelProps> = ({
+  projection,
+  onProjectionChange,
+  onStandardView,
+  onFitToObject,
+  keepViewOnRegenerate,
+  setKeepViewOnRegenerate,
+  getCameraView,
+  onGoToView,
+}) => {
+  const [bookmarks, setBookmarks] = useState<CameraBookmark[]>(loadCameraBookmarks);
+  const [bookmarkName, setBookmarkName] = useState('');
+
+  const updateBookmarks = (next: CameraBookmark[]) => {
+    setBookmarks(next);
+    saveCameraBookmarks(next);
+  };
+
+  // A bookmark with the same name is overwritten
+  const handleSaveBookmark = () => {
+    const name = bookmarkName.trim();
+    const view = getCameraView();
+    if (!name || !view) return;
+    const index = bookmarks.findIndex(b => b.name === name);
+    updateBookmarks(index >= 0 ? bookmarks.map((b, i) => (i === index ? { name, view } : b)) : [...bookmarks, { name, view }]);
+    setBookmarkName('');
+  };
+
+  const buttonClass = 'flex-1 bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-2 rounded-lg';
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+      <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">カメラ</h2>
+      <div className="flex gap-2">
+        {STANDARD_VIEWS.map(({ view, label }) => (
+          <button key={view} onClick={() => onStandardView(view)} className={buttonClass}>
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <select
+          value={projection}
+          onChange={(e) => onProjectionChange(e.target.value as CameraProjection)}
+          className="flex-1 py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          aria-label="投影方式"
+        >
+          <option value="perspective">透視投影</option>
+          <option value="orthographic">平行投影</option>
+        </select>
+        <button onClick={onFitToObject} className={buttonClass}>
+          全体を表示
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={keepViewOnRegenerate}
+          onChange={(e) => setKeepViewOnRegenerate(e.target.checked)}
+          className="accent-blue-500"
+        />
+        再生成時に視点を維持
+      </label>
+
+      <div className="pt-2 border-t border-gray-600 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={bookmarkName}
+            onChange={(e) => setBookmarkName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveBookmark()}
+            placeholder="ブックマーク名"
+            aria-label="ブックマーク名"
+            className="flex-1 min-w-0 py-2 px-3 border border-gray-600 bg-gray-800 text-white rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button onClick={handleSaveBookmark} disabled={!bookmarkName.trim()} className="bg-green-600 hover:bg-green-700 text-white text-sm font-semibold py-2 px-3 rounded-lg disabled:opacity-50">
+            視点を保存
+          </button>
+        </div>
+        {bookmarks.length > 0 ? (
+          <ul className="space-y-1">
+            {bookmarks.map((bookmark, index) => (
+              <li key={bookmark.name} className="flex gap-2">
+                <button
+                  onClick={() => onGoToView(bookmark.view)}
+                  className="flex-1 text-left bg-gray-800 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded-md truncate"
+                  title={`${bookmark.name} へ移動`}
+                >
+                  {bookmark.name}
+                  <span className="text-xs text-gray-400 ml-2">{bookmark.view.projection === 'orthographic' ? '平行' : '透視'}</span>
+                </button>
+                <button
+                  onClick={() => updateBookmarks(bookmarks.filter((_, i) => i !== index))}
+                  className="bg-red-600 hover:bg-red-700 text-white text-xs font-semibold py-1 px-2 rounded-md"
+                  aria-label={`${bookmark.name} を削除`}
+                >
+                  削除
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-400 px-1">保存した視点はここに表示され、クリックするとその視点へ移動します。</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraPanel;
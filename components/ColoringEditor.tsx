@@ -0,0 +1,131 @@
+import React from 'react';
+import type { ColoringMode, ColoringSettings, GradientStop, RotationAxis } from '../types';
+import { DEFAULT_COLORING_SETTINGS, GRADIENT_MAX_STOPS, GRADIENT_MIN_STOPS, GRADIENT_POSITION_RANGE } from '../constants';
+
+interface ColoringEditorProps {
+  coloring: ColoringSettings;
+  onChange: (coloring: ColoringSettings) => void;
+}
+
+const MODE_LABELS: Record<ColoringMode, string> = {
+  solid: '単色 (フラクタル色)',
+  depth: '再帰の深さ',
+  branch: '最上位の枝',
+  axis: '軸方向の位置',
+  radial: '中心からの距離',
+};
+
+const sortStops = (gradient: GradientStop[]) => [...gradient].sort((a, b) => a.position - b.position);
+
+// CSS preview of the gradient as the mesh will show it
+const toCssGradient = (gradient: GradientStop[]) =>
+  `linear-gradient(to right, ${sortStops(gradient).map(stop => `${stop.color} ${(stop.position * 100).toFixed(0)}%`).join(', ')})`;
+
+const ColoringEditor: React.FC<ColoringEditorProps> = ({ coloring, onChange }) => {
+  const updateStop = (index: number, stop: Partial<GradientStop>) => {
+    onChange({ ...coloring, gradient: coloring.gradient.map((s, i) => (i === index ? { ...s, ...stop } : s)) });
+  };
+
+  // The new stop splits the widest gap between neighbouring stops and takes the color of its left end
+  const addStop = () => {
+    const stops = sortStops(coloring.gradient);
+    let gapStart = 0;
+    for (let i = 1; i < stops.length - 1; i++) {
+      if (stops[i + 1].position - stops[i].position > stops[gapStart + 1].position - stops[gapStart].position) gapStart = i;
+    }
+    const position = Math.round(((stops[gapStart].position + stops[gapStart + 1].position) / 2) * 100) / 100;
+    onChange({ ...coloring, gradient: [...coloring.gradient, { position, color: stops[gapStart].color }] });
+  };
+
+  const removeStop = (index: number) => {
+    onChange({ ...coloring, gradient: coloring.gradient.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+      <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">配色</h2>
+      <div>
+        <label htmlFor="coloringModeSelector" className="block text-sm font-medium text-gray-300">色分け:</label>
+        <select
+          id="coloringModeSelector"
+          value={coloring.mode}
+          onChange={(e) => onChange({ ...coloring, mode: e.target.value as ColoringMode })}
+          className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        >
+          {(Object.keys(MODE_LABELS) as ColoringMode[]).map(mode => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </div>
+
+      {coloring.mode === 'axis' && (
+        <div>
+          <label htmlFor="coloringAxisSelector" className="block text-sm font-medium text-gray-300">軸:</label>
+          <select
+            id="coloringAxisSelector"
+            value={coloring.axis}
+            onChange={(e) => onChange({ ...coloring, axis: e.target.value as RotationAxis })}
+            className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            <option value="x">X軸</option>
+            <option value="y">Y軸</option>
+            <option value="z">Z軸</option>
+          </select>
+        </div>
+      )}
+
+      {coloring.mode !== 'solid' && (
+        <>
+          <div className="h-4 rounded-md border border-gray-600" style={{ background: toCssGradient(coloring.gradient) }} aria-hidden="true" />
+          {coloring.gradient.map((stop, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(e) => updateStop(index, { color: e.target.value })}
+                className="w-10 h-8 p-0.5 bg-gray-700 border border-gray-600 rounded-md cursor-pointer shrink-0"
+                aria-label={`色 ${index + 1}`}
+              />
+              <input
+                type="range"
+                value={stop.position}
+                {...GRADIENT_POSITION_RANGE}
+                onChange={(e) => updateStop(index, { position: parseFloat(e.target.value) })}
+                className="flex-1 min-w-0 accent-blue-500"
+                aria-label={`色 ${index + 1} の位置`}
+              />
+              <span className="w-10 text-right text-xs text-gray-300">{(stop.position * 100).toFixed(0)}%</span>
+              <button
+                onClick={() => removeStop(index)}
+                disabled={coloring.gradient.length <= GRADIENT_MIN_STOPS}
+                className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                削除
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button
+              onClick={addStop}
+              disabled={coloring.gradient.length >= GRADIENT_MAX_STOPS}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 px-3 rounded-lg disabled:opacity-50"
+            >
+              色を追加
+            </button>
+            <button
+              onClick={() => onChange({ ...coloring, gradient: DEFAULT_COLORING_SETTINGS.gradient })}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-3 rounded-lg"
+            >
+              初期値に戻す
+            </button>
+          </div>
+          <p className="text-xs text-gray-400 px-1">
+            値の範囲全体をグラデーションに割り当てます。インスタンス描画では葉ごとに1色になります。再帰の深さは葉の中でも変わるため、選択中はインスタンス描画を使わず完全なメッシュで表示します。PLY・glTF・OBJ のエクスポートに頂点カラーとして書き出されます。
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ColoringEditor;
@@ -1,8 +1,25 @@
 
-import React from 'react';
-import { FractalType, type FractalParameters, type LightSettings } from '../types';
-import { MAX_LEVELS } from '../constants';
+import React, { useState } from 'react';
+import {
+  type FractalParameters, type FractalSurfaceMode, type LightSettings, type StlFormat, type GltfFormat, type PlyFormat,
+  type ImageRenderOptions, type TurntableSettings, type AutoRotateSettings, type MaterialSettings, type MaterialSide, type RotationAxis, type CameraProjection, type CameraView,
+  type StandardView, type ProgressExportKind,
+} from '../types';
+import {
+  MIN_MEMORY_BUDGET_MB, MAX_MEMORY_BUDGET_MB, FRACTAL_SIZE_RANGE, ESCAPE_TIME_RANGES, LIGHT_INTENSITY_RANGES, LIGHT_POSITION_RANGE,
+  AUTO_ROTATE_SPEED_RANGE, AUTO_ROTATE_AXIS_WEIGHT_RANGE, DEFAULT_TURNTABLE_SETTINGS, TURNTABLE_DEGREES_RANGE, TURNTABLE_FRAMES_RANGE,
+  MATERIAL_RANGES,
+} from '../constants';
+import { VOX_MAX_DIMENSION } from '../utils/voxExporter';
+import { IMAGE_MAX_DIMENSION } from '../utils/imageRenderer';
+import { clampFractalLevel, getFractalDefinition, getFractalDefinitions } from '../utils/fractalRegistry';
+import { estimateFractalSize, formatBytes, formatCount } from '../utils/sizeEstimator';
+import { needsFullMeshPreview } from '../utils/vertexColors';
 import SliderInput from './SliderInput';
+import IfsEditor from './IfsEditor';
+import ColoringEditor from './ColoringEditor';
+import PresetManager from './PresetManager';
+import CameraPanel from './CameraPanel';
 
 interface ControlsPanelProps {
   fractalParams: FractalParameters;
@@ -10,13 +27,46 @@ interface ControlsPanelProps {
   lightSettings: LightSettings;
   setLightSettings: React.Dispatch<React.SetStateAction<LightSettings>>;
   onGenerate: () => void;
-  onExportObj: () => void;
+  onExportObj: (includeNormals: boolean, includeMaterial: boolean, groupByBranch: boolean) => void;
+  onExportStl: (format: StlFormat) => void;
+  onExportGltf: (format: GltfFormat) => void;
+  onExportPly: (format: PlyFormat, includeColors: boolean, includeDepth: boolean) => void;
+  onExportVox: (resolution: number) => void;
+  onRenderImage: (options: ImageRenderOptions) => void;
+  onExportTurntable: (settings: TurntableSettings, options: ImageRenderOptions) => void;
+  autoRotateSettings: AutoRotateSettings;
+  setAutoRotateSettings: React.Dispatch<React.SetStateAction<AutoRotateSettings>>;
+  materialSettings: MaterialSettings;
+  setMaterialSettings: React.Dispatch<React.SetStateAction<MaterialSettings>>;
+  cameraProjection: CameraProjection;
+  onCameraProjectionChange: (projection: CameraProjection) => void;
+  onStandardView: (view: StandardView) => void;
+  onFitToObject: () => void;
+  keepViewOnRegenerate: boolean;
+  setKeepViewOnRegenerate: React.Dispatch<React.SetStateAction<boolean>>;
+  getCameraView: () => CameraView | null;
+  onGoToCameraView: (view: CameraView) => void;
+  isRenderingImage: boolean;
+  canRenderImage: boolean;
+  exportProgress: number | null;
+  exportKind: ProgressExportKind;
+  onCancelExport: () => void;
   isGenerating: boolean;
   canExport: boolean;
   isPreviewDisabled: boolean;
   setIsPreviewDisabled: React.Dispatch<React.SetStateAction<boolean>>;
+  isInstancedPreview: boolean;
+  setIsInstancedPreview: React.Dispatch<React.SetStateAction<boolean>>;
+  memoryBudgetMB: number;
+  setMemoryBudgetMB: React.Dispatch<React.SetStateAction<number>>;
+  onCopyLink: () => void;
 }
 
+const EXPORT_PROGRESS_LABELS: Record<ProgressExportKind, string> = {
+  obj: 'OBJ書き出し中...',
+  vox: 'ボクセル化中...',
+};
+
 const ControlsPanel: React.FC<ControlsPanelProps> = ({
   fractalParams,
   setFractalParams,
@@ -24,25 +74,65 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
   setLightSettings,
   onGenerate,
   onExportObj,
+  onExportStl,
+  onExportGltf,
+  onExportPly,
+  onExportVox,
+  onRenderImage,
+  onExportTurntable,
+  autoRotateSettings,
+  setAutoRotateSettings,
+  materialSettings,
+  setMaterialSettings,
+  cameraProjection,
+  onCameraProjectionChange,
+  onStandardView,
+  onFitToObject,
+  keepViewOnRegenerate,
+  setKeepViewOnRegenerate,
+  getCameraView,
+  onGoToCameraView,
+  isRenderingImage,
+  canRenderImage,
+  exportProgress,
+  exportKind,
+  onCancelExport,
   isGenerating,
   canExport,
   isPreviewDisabled,
   setIsPreviewDisabled,
+  isInstancedPreview,
+  setIsInstancedPreview,
+  memoryBudgetMB,
+  setMemoryBudgetMB,
+  onCopyLink,
 }) => {
+  const [objIncludeNormals, setObjIncludeNormals] = useState(true);
+  const [objIncludeMaterial, setObjIncludeMaterial] = useState(false);
+  const [objGroupByBranch, setObjGroupByBranch] = useState(false);
+  const [stlFormat, setStlFormat] = useState<StlFormat>('binary');
+  const [gltfFormat, setGltfFormat] = useState<GltfFormat>('glb');
+  const [plyFormat, setPlyFormat] = useState<PlyFormat>('binary');
+  const [plyIncludeColors, setPlyIncludeColors] = useState(true);
+  const [plyIncludeDepth, setPlyIncludeDepth] = useState(false);
+  const [voxResolution, setVoxResolution] = useState(128);
+  // Sides are kept as typed and validated on use, so the fields can be edited freely
+  const [imageSize, setImageSize] = useState({ width: '3840', height: '2160' });
+  const [imageSupersampling, setImageSupersampling] = useState(2);
+  const [imageTransparent, setImageTransparent] = useState(false);
+  const [turntableSettings, setTurntableSettings] = useState<TurntableSettings>(DEFAULT_TURNTABLE_SETTINGS);
+
   const handleFractalTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newType = e.target.value as FractalType;
-    let newLevel = fractalParams.level;
+    const newDefinition = getFractalDefinition(e.target.value);
+    let newLevel = newDefinition.defaultLevel ?? fractalParams.level;
     // Adjust level if current level is out of bounds for the new type
-    if (newLevel > MAX_LEVELS[newType]) {
+    if (newLevel > newDefinition.maxLevel) {
       // Reset to a sensible default like 2, or the max if it's lower
-      newLevel = Math.min(2, MAX_LEVELS[newType]); 
+      newLevel = clampFractalLevel(newDefinition, 2);
     }
-    if (newType === FractalType.MengerSponge && newLevel < 0) {
-      newLevel = 0; // Menger Sponge min level is 0
-    }
-
+    newLevel = clampFractalLevel(newDefinition, newLevel);
 
-    setFractalParams(prev => ({ ...prev, type: newType, level: newLevel }));
+    setFractalParams(prev => ({ ...prev, type: newDefinition.id, level: newLevel, size: newDefinition.defaultSize }));
   };
 
   const handleParamChange = <K extends keyof FractalParameters,>(param: K, value: FractalParameters[K]) => {
@@ -53,6 +143,10 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
     setLightSettings(prev => ({ ...prev, [param]: value }));
   };
 
+  const handleMaterialChange = <K extends keyof MaterialSettings,>(param: K, value: MaterialSettings[K]) => {
+    setMaterialSettings(prev => ({ ...prev, [param]: value }));
+  };
+
   const handleDirectionalLightPosChange = (axis: 'x' | 'y' | 'z', value: number) => {
     setLightSettings(prev => ({
       ...prev,
@@ -63,14 +157,51 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
     }));
   };
   
-  const currentMaxLevel = MAX_LEVELS[fractalParams.type];
-  const currentMinLevel = fractalParams.type === FractalType.MengerSponge ? 0 : 0;
+  const fractalDefinition = getFractalDefinition(fractalParams.type);
+  const currentMaxLevel = fractalDefinition.maxLevel;
+  const currentMinLevel = fractalDefinition.minLevel;
+  const canInstance = !!fractalDefinition.instancing;
+  const parseImageSide = (text: string) => {
+    const value = Number(text);
+    return Number.isInteger(value) && value >= 1 && value <= IMAGE_MAX_DIMENSION ? value : null;
+  };
+  const imageWidth = parseImageSide(imageSize.width);
+  const imageHeight = parseImageSide(imageSize.height);
+  const imageRenderOptions: ImageRenderOptions | null = imageWidth && imageHeight
+    ? { width: imageWidth, height: imageHeight, supersampling: imageSupersampling, transparentBackground: imageTransparent }
+    : null;
+  const canStartImageRender = canRenderImage && !isGenerating && !isRenderingImage && !!imageRenderOptions;
+  const coloringNeedsFullMesh = needsFullMeshPreview(fractalParams.coloring);
+  const sizeEstimate = estimateFractalSize(fractalParams, isInstancedPreview && !isPreviewDisabled && !coloringNeedsFullMesh);
+  const isOverBudget = sizeEstimate.bytes > memoryBudgetMB * 1024 * 1024;
+  const isExporting = exportProgress !== null;
+
+  // Shown in place of the button of the running export
+  const exportProgressView = isExporting && (
+    <div className="mt-2 p-3 bg-gray-700 rounded-lg space-y-2" role="status" aria-live="polite">
+      <div className="flex justify-between text-sm text-gray-300">
+        <span>{EXPORT_PROGRESS_LABELS[exportKind]}</span>
+        <span className="font-semibold text-green-300">{Math.floor(exportProgress * 100)}%</span>
+      </div>
+      <div className="w-full h-2 bg-gray-600 rounded-lg overflow-hidden">
+        <div className="h-full bg-green-500 transition-all" style={{ width: `${exportProgress * 100}%` }} />
+      </div>
+      <button
+        onClick={onCancelExport}
+        className="w-full bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-50"
+      >
+        キャンセル
+      </button>
+    </div>
+  );
 
 
   return (
     <div className="w-full md:w-96 bg-gray-800 p-4 md:p-6 space-y-4 overflow-y-auto shadow-lg md:rounded-r-lg h-full flex flex-col">
       <h1 className="text-2xl font-bold text-center text-blue-400 mb-4">3D フラクタル設定</h1>
 
+      {/* Settings the image renderer reads from the live scene stay locked until it finishes */}
+      <fieldset disabled={isRenderingImage} className="space-y-4 min-w-0">
       {/* Fractal Settings */}
       <div className="space-y-3 p-3 bg-gray-700 rounded-md">
         <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">基本設定</h2>
@@ -82,30 +213,54 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
             onChange={handleFractalTypeChange}
             className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
           >
-            <option value={FractalType.SierpinskiTetrahedron}>シェルピンスキー四面体</option>
-            <option value={FractalType.MengerSponge}>メンガースポンジ (立方体)</option>
-            <option value={FractalType.SierpinskiOctahedron}>シェルピンスキー八面体</option>
+            {getFractalDefinitions().map(definition => (
+              <option key={definition.id} value={definition.id}>{definition.name}</option>
+            ))}
           </select>
         </div>
 
         <SliderInput
           id="levelSlider"
-          label="再帰レベル"
+          label={fractalDefinition.levelLabel ?? '再帰レベル'}
           value={fractalParams.level}
           min={currentMinLevel}
           max={currentMaxLevel}
           step={1}
           onChange={(val) => handleParamChange('level', val)}
         />
+        <p className={`text-xs px-1 -mt-2 ${isOverBudget ? 'text-red-400' : 'text-gray-400'}`} aria-live="polite">
+          予測: 頂点 {formatCount(sizeEstimate.vertices)} / 面 {formatCount(sizeEstimate.faces)}
+          {sizeEstimate.instances !== undefined && ` / インスタンス ${formatCount(sizeEstimate.instances)}`} / 約 {formatBytes(sizeEstimate.bytes)}
+          {isOverBudget && ' (予算超過)'}
+        </p>
+        <div>
+          <label htmlFor="surfaceModeSelector" className="block text-sm font-medium text-gray-300">出力面:</label>
+          <select
+            id="surfaceModeSelector"
+            value={fractalParams.surface}
+            onChange={(e) => handleParamChange('surface', e.target.value as FractalSurfaceMode)}
+            className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            <option value="raw">生セル (全ての面)</option>
+            <option value="outer">外表面のみ (接する面を除去)</option>
+          </select>
+        </div>
         <SliderInput
           id="sizeSlider"
           label="基本サイズ"
           value={fractalParams.size}
-          min={1}
-          max={10}
-          step={0.1}
+          {...FRACTAL_SIZE_RANGE}
           onChange={(val) => handleParamChange('size', val)}
         />
+        <SliderInput
+          id="memoryBudgetSlider"
+          label="メモリ予算 (MB)"
+          value={memoryBudgetMB}
+          min={MIN_MEMORY_BUDGET_MB}
+          max={MAX_MEMORY_BUDGET_MB}
+          step={256}
+          onChange={setMemoryBudgetMB}
+        />
         <div>
           <label htmlFor="colorPicker" className="block text-sm font-medium text-gray-300">フラクタル色:</label>
           <input
@@ -118,6 +273,54 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
           />
         </div>
       </div>
+
+      <ColoringEditor coloring={fractalParams.coloring} onChange={(coloring) => handleParamChange('coloring', coloring)} />
+
+      {fractalDefinition.parameterSection?.kind === 'ifs' && (
+        <IfsEditor ifs={fractalParams.ifs} onChange={(ifs) => handleParamChange('ifs', ifs)} />
+      )}
+
+      {fractalDefinition.parameterSection?.kind === 'escapeTime' && (
+        <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+          <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">等値面設定</h2>
+          {fractalDefinition.parameterSection.shapeParameter === 'power' ? (
+            <SliderInput
+              id="escapePowerSlider"
+              label="べき指数"
+              value={fractalParams.escapeTime.power}
+              {...ESCAPE_TIME_RANGES.power}
+              onChange={(val) => handleParamChange('escapeTime', { ...fractalParams.escapeTime, power: val })}
+            />
+          ) : (
+            <SliderInput
+              id="boxScaleSlider"
+              label="ボックススケール"
+              value={fractalParams.escapeTime.boxScale}
+              {...ESCAPE_TIME_RANGES.boxScale}
+              onChange={(val) => handleParamChange('escapeTime', { ...fractalParams.escapeTime, boxScale: val })}
+            />
+          )}
+          <SliderInput
+            id="isosurfaceResolutionSlider"
+            label="サンプリング解像度"
+            value={fractalParams.escapeTime.resolution}
+            {...ESCAPE_TIME_RANGES.resolution}
+            onChange={(val) => handleParamChange('escapeTime', { ...fractalParams.escapeTime, resolution: val })}
+          />
+          <p className="text-xs text-gray-400 px-1">距離推定関数を格子上でサンプリングし、マーチングキューブ法で表面を抽出します。</p>
+        </div>
+      )}
+
+      <PresetManager
+        fractalParams={fractalParams}
+        lightSettings={lightSettings}
+        materialSettings={materialSettings}
+        onApply={({ fractalParams: presetParams, lightSettings: presetLights, materialSettings: presetMaterial }) => {
+          setFractalParams(presetParams);
+          setLightSettings(presetLights);
+          setMaterialSettings(presetMaterial);
+        }}
+      />
       
       <div className="flex items-center justify-between bg-gray-700 p-3 rounded-md my-3">
         <label htmlFor="previewToggle" className="text-sm font-medium text-gray-300">プレビュー表示:</label>
@@ -134,6 +337,26 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
           {isPreviewDisabled ? 'オフ (計算のみ)' : 'オン'}
         </button>
       </div>
+      {!isPreviewDisabled && (
+        <div className="bg-gray-700 p-3 rounded-md -mt-1 space-y-1">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={isInstancedPreview}
+              onChange={(e) => setIsInstancedPreview(e.target.checked)}
+              disabled={!canInstance}
+              className="accent-green-500"
+            />
+            インスタンス描画 (葉の変換のみ生成)
+          </label>
+          <p className="text-xs text-gray-400">
+            {canInstance
+              ? '同じ形状の葉を InstancedMesh で描画し、深いレベルも軽くプレビューします。エクスポート時に完全なメッシュへ展開します。'
+              : 'このフラクタルはインスタンス描画に対応していません。'}
+            {canInstance && isInstancedPreview && coloringNeedsFullMesh && ' 再帰の深さで色分けする間は完全なメッシュで描画します。'}
+          </p>
+        </div>
+      )}
 
       <button
         onClick={onGenerate}
@@ -143,30 +366,327 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
       >
         {isGenerating ? '生成中...' : (isPreviewDisabled ? '計算実行' : '生成')}
       </button>
+      </fieldset>
       <button
-        onClick={onExportObj}
-        disabled={!canExport || isGenerating}
-        className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        onClick={onCopyLink}
+        className="w-full bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-50"
+        title="パラメータ・ライト・カメラを含むURLをクリップボードにコピー"
       >
-        OBJエクスポート
+        リンクをコピー
       </button>
+      {isExporting && exportKind === 'obj' ? exportProgressView : (
+        <button
+          onClick={() => onExportObj(objIncludeNormals, objIncludeMaterial, objGroupByBranch)}
+          disabled={!canExport || isGenerating || isExporting}
+          className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          OBJエクスポート
+        </button>
+      )}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 px-1">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={objIncludeNormals} onChange={(e) => setObjIncludeNormals(e.target.checked)} className="accent-green-500" />
+          法線 (vn)
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={objIncludeMaterial} onChange={(e) => setObjIncludeMaterial(e.target.checked)} className="accent-green-500" />
+          マテリアル (MTL, zip)
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={objGroupByBranch} onChange={(e) => setObjGroupByBranch(e.target.checked)} className="accent-green-500" />
+          枝ごとにグループ化
+        </label>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <select
+          id="stlFormatSelector"
+          value={stlFormat}
+          onChange={(e) => setStlFormat(e.target.value as StlFormat)}
+          className="py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-lg shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          aria-label="STL形式選択"
+        >
+          <option value="binary">バイナリ</option>
+          <option value="ascii">ASCII</option>
+        </select>
+        <button
+          onClick={() => onExportStl(stlFormat)}
+          disabled={!canExport || isGenerating}
+          className="flex-grow bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          STLエクスポート
+        </button>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <select
+          id="gltfFormatSelector"
+          value={gltfFormat}
+          onChange={(e) => setGltfFormat(e.target.value as GltfFormat)}
+          className="py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-lg shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          aria-label="glTF形式選択"
+        >
+          <option value="glb">GLB</option>
+          <option value="gltf">glTF</option>
+        </select>
+        <button
+          onClick={() => onExportGltf(gltfFormat)}
+          disabled={!canExport || isGenerating}
+          className="flex-grow bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          glTFエクスポート
+        </button>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <select
+          id="plyFormatSelector"
+          value={plyFormat}
+          onChange={(e) => setPlyFormat(e.target.value as PlyFormat)}
+          className="py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-lg shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          aria-label="PLY形式選択"
+        >
+          <option value="binary">バイナリ</option>
+          <option value="ascii">ASCII</option>
+        </select>
+        <button
+          onClick={() => onExportPly(plyFormat, plyIncludeColors, plyIncludeDepth)}
+          disabled={!canExport || isGenerating}
+          className="flex-grow bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          PLYエクスポート
+        </button>
+      </div>
+      <div className="flex gap-4 px-1">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={plyIncludeColors} onChange={(e) => setPlyIncludeColors(e.target.checked)} className="accent-green-500" />
+          頂点カラー
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={plyIncludeDepth} onChange={(e) => setPlyIncludeDepth(e.target.checked)} className="accent-green-500" />
+          再帰深度 (depth)
+        </label>
+      </div>
+      {!fractalDefinition.voxelizer ? (
+        <p className="text-xs text-gray-400 px-1">このフラクタルはVOXエクスポートに対応していません。</p>
+      ) : fractalDefinition.voxelizer.kind === 'lattice' ? (
+        <p className="text-xs text-gray-400 px-1">ボクセル解像度: {fractalDefinition.voxelizer.dimension(fractalParams.level)}³ (格子上で正確に変換、上限 {VOX_MAX_DIMENSION})</p>
+      ) : (
+        <SliderInput
+          id="voxResolutionSlider"
+          label="ボクセル解像度"
+          value={voxResolution}
+          min={16}
+          max={VOX_MAX_DIMENSION}
+          step={16}
+          onChange={setVoxResolution}
+        />
+      )}
+      {isExporting && exportKind === 'vox' ? exportProgressView : (
+        <button
+          onClick={() => onExportVox(voxResolution)}
+          disabled={isGenerating || isExporting || !fractalDefinition.voxelizer}
+          className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          VOXエクスポート (MagicaVoxel)
+        </button>
+      )}
 
+      {/* Image Rendering */}
+      <div className="space-y-2 p-3 bg-gray-700 rounded-md">
+        <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">画像レンダリング</h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            value={imageSize.width}
+            min={1}
+            max={IMAGE_MAX_DIMENSION}
+            onChange={(e) => setImageSize(prev => ({ ...prev, width: e.target.value }))}
+            aria-label="画像の幅 (px)"
+            className="w-full min-w-0 py-2 px-3 border border-gray-600 bg-gray-800 text-white rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <span className="text-gray-300">×</span>
+          <input
+            type="number"
+            value={imageSize.height}
+            min={1}
+            max={IMAGE_MAX_DIMENSION}
+            onChange={(e) => setImageSize(prev => ({ ...prev, height: e.target.value }))}
+            aria-label="画像の高さ (px)"
+            className="w-full min-w-0 py-2 px-3 border border-gray-600 bg-gray-800 text-white rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <span className="text-sm text-gray-300">px</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-1">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            スーパーサンプリング:
+            <select
+              value={imageSupersampling}
+              onChange={(e) => setImageSupersampling(Number(e.target.value))}
+              className="py-1 px-2 border border-gray-600 bg-gray-700 text-white rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value={1}>なし</option>
+              <option value={2}>2×</option>
+              <option value={4}>4×</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={imageTransparent}
+              onChange={(e) => setImageTransparent(e.target.checked)}
+              className="accent-green-500"
+            />
+            背景を透過
+          </label>
+        </div>
+        <button
+          onClick={() => imageRenderOptions && onRenderImage(imageRenderOptions)}
+          disabled={!canStartImageRender}
+          className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+        >
+          {isRenderingImage ? 'レンダリング中...' : '画像をレンダリング (PNG)'}
+        </button>
+        {isRenderingImage && (
+          <p className="text-xs text-yellow-300 px-1">レンダリングが終わるまで、形状・光源・マテリアルの設定と元に戻す操作はロックされます。</p>
+        )}
+        {!imageRenderOptions && (
+          <p className="text-xs text-red-400 px-1">幅と高さは 1〜{IMAGE_MAX_DIMENSION} の整数で指定してください。</p>
+        )}
+        <p className="text-xs text-gray-400 px-1">現在の視点をタイル分割で描画し、1枚のPNGに結合します。表示中のキャンバスのサイズは変わりません。</p>
+        <div className="pt-2 border-t border-gray-600 space-y-3">
+          <div>
+            <label htmlFor="turntableAxisSelector" className="block text-sm font-medium text-gray-300">ターンテーブル 回転軸:</label>
+            <select
+              id="turntableAxisSelector"
+              value={turntableSettings.axis}
+              onChange={(e) => setTurntableSettings(prev => ({ ...prev, axis: e.target.value as RotationAxis }))}
+              className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="y">Y軸 (水平に一周)</option>
+              <option value="x">X軸 (縦に一周)</option>
+              <option value="z">Z軸 (視線まわり)</option>
+            </select>
+          </div>
+          <SliderInput
+            id="turntableDegreesSlider"
+            label="回転角度"
+            value={turntableSettings.degrees}
+            {...TURNTABLE_DEGREES_RANGE}
+            valueSuffix="°"
+            onChange={(val) => setTurntableSettings(prev => ({ ...prev, degrees: val }))}
+          />
+          <SliderInput
+            id="turntableFramesSlider"
+            label="フレーム数"
+            value={turntableSettings.frames}
+            {...TURNTABLE_FRAMES_RANGE}
+            onChange={(val) => setTurntableSettings(prev => ({ ...prev, frames: val }))}
+          />
+          <button
+            onClick={() => imageRenderOptions && onExportTurntable(turntableSettings, imageRenderOptions)}
+            disabled={!canStartImageRender}
+            className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition duration-150 ease-in-out shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 disabled:opacity-50"
+          >
+            ターンテーブル書き出し (PNG連番 zip)
+          </button>
+          <p className="text-xs text-gray-400 px-1">注視点を中心にカメラを一定角度ずつ回し、上の解像度で各フレームを描画します。360° ではループ用に最終フレームが先頭と重なりません。</p>
+        </div>
+      </div>
+
+      <fieldset disabled={isRenderingImage} className="space-y-4 min-w-0">
       {/* Lighting Settings */}
       {!isPreviewDisabled && (
         <div className="mt-6 pt-4 border-t border-gray-600 space-y-3 p-3 bg-gray-700 rounded-md">
           <h2 className="text-xl font-semibold text-center text-teal-400 mb-3">光源設定</h2>
-          <SliderInput id="ambientIntensitySlider" label="環境光 強度" value={lightSettings.ambientIntensity} min={0} max={3} step={0.1} onChange={(v) => handleLightChange('ambientIntensity',v)} accentColorClass="accent-teal-500" />
-          <SliderInput id="directionalIntensitySlider" label="指向性光 強度" value={lightSettings.directionalIntensity} min={0} max={5} step={0.1} onChange={(v) => handleLightChange('directionalIntensity',v)} accentColorClass="accent-teal-500" />
-          <SliderInput id="directionalLightXSlider" label="指向性光 X位置" value={lightSettings.directionalPosition.x} min={-50} max={50} step={1} onChange={(v) => handleDirectionalLightPosChange('x',v)} accentColorClass="accent-teal-500" />
-          <SliderInput id="directionalLightYSlider" label="指向性光 Y位置" value={lightSettings.directionalPosition.y} min={-50} max={50} step={1} onChange={(v) => handleDirectionalLightPosChange('y',v)} accentColorClass="accent-teal-500" />
-          <SliderInput id="directionalLightZSlider" label="指向性光 Z位置" value={lightSettings.directionalPosition.z} min={-50} max={50} step={1} onChange={(v) => handleDirectionalLightPosChange('z',v)} accentColorClass="accent-teal-500" />
-          <SliderInput id="fillIntensitySlider" label="フィルライト 強度" value={lightSettings.fillIntensity} min={0} max={3} step={0.1} onChange={(v) => handleLightChange('fillIntensity',v)} accentColorClass="accent-teal-500" />
-          <SliderInput id="hemisphereIntensitySlider" label="半球光 強度" value={lightSettings.hemisphereIntensity} min={0} max={3} step={0.1} onChange={(v) => handleLightChange('hemisphereIntensity',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="ambientIntensitySlider" label="環境光 強度" value={lightSettings.ambientIntensity} {...LIGHT_INTENSITY_RANGES.ambientIntensity} onChange={(v) => handleLightChange('ambientIntensity',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="directionalIntensitySlider" label="指向性光 強度" value={lightSettings.directionalIntensity} {...LIGHT_INTENSITY_RANGES.directionalIntensity} onChange={(v) => handleLightChange('directionalIntensity',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="directionalLightXSlider" label="指向性光 X位置" value={lightSettings.directionalPosition.x} {...LIGHT_POSITION_RANGE} onChange={(v) => handleDirectionalLightPosChange('x',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="directionalLightYSlider" label="指向性光 Y位置" value={lightSettings.directionalPosition.y} {...LIGHT_POSITION_RANGE} onChange={(v) => handleDirectionalLightPosChange('y',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="directionalLightZSlider" label="指向性光 Z位置" value={lightSettings.directionalPosition.z} {...LIGHT_POSITION_RANGE} onChange={(v) => handleDirectionalLightPosChange('z',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="fillIntensitySlider" label="フィルライト 強度" value={lightSettings.fillIntensity} {...LIGHT_INTENSITY_RANGES.fillIntensity} onChange={(v) => handleLightChange('fillIntensity',v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="hemisphereIntensitySlider" label="半球光 強度" value={lightSettings.hemisphereIntensity} {...LIGHT_INTENSITY_RANGES.hemisphereIntensity} onChange={(v) => handleLightChange('hemisphereIntensity',v)} accentColorClass="accent-teal-500" />
+        </div>
+      )}
+
+      {/* Material Settings */}
+      {!isPreviewDisabled && (
+        <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+          <h2 className="text-xl font-semibold text-center text-teal-400 mb-3">マテリアル</h2>
+          <SliderInput id="metalnessSlider" label="金属度" value={materialSettings.metalness} {...MATERIAL_RANGES.metalness} onChange={(v) => handleMaterialChange('metalness', v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="roughnessSlider" label="粗さ" value={materialSettings.roughness} {...MATERIAL_RANGES.roughness} onChange={(v) => handleMaterialChange('roughness', v)} accentColorClass="accent-teal-500" />
+          <SliderInput id="opacitySlider" label="不透明度" value={materialSettings.opacity} {...MATERIAL_RANGES.opacity} onChange={(v) => handleMaterialChange('opacity', v)} accentColorClass="accent-teal-500" />
+          <div>
+            <label htmlFor="emissivePicker" className="block text-sm font-medium text-gray-300">発光色:</label>
+            <input
+              type="color"
+              id="emissivePicker"
+              value={materialSettings.emissive}
+              onChange={(e) => handleMaterialChange('emissive', e.target.value)}
+              className="w-full h-10 p-1 bg-gray-700 border border-gray-600 rounded-lg cursor-pointer mt-1"
+              aria-label="発光色選択"
+            />
+          </div>
+          <div>
+            <label htmlFor="materialSideSelector" className="block text-sm font-medium text-gray-300">描画する面:</label>
+            <select
+              id="materialSideSelector"
+              value={materialSettings.side}
+              onChange={(e) => handleMaterialChange('side', e.target.value as MaterialSide)}
+              className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="auto">自動 (種類に合わせる)</option>
+              <option value="front">表面のみ</option>
+              <option value="back">裏面のみ</option>
+              <option value="double">両面</option>
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 px-1">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={materialSettings.flatShading} onChange={(e) => handleMaterialChange('flatShading', e.target.checked)} className="accent-teal-500" />
+              フラットシェーディング
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={materialSettings.wireframe} onChange={(e) => handleMaterialChange('wireframe', e.target.checked)} className="accent-teal-500" />
+              ワイヤーフレーム重ね描き
+            </label>
+          </div>
+          <p className="text-xs text-gray-400 px-1">変更は再生成せずにプレビューへ反映され、glTF と MTL のエクスポートにも書き出されます (シェーディングとワイヤーフレームを除く)。</p>
+        </div>
+      )}
+      </fieldset>
+
+      {!isPreviewDisabled && (
+        <CameraPanel
+          projection={cameraProjection}
+          onProjectionChange={onCameraProjectionChange}
+          onStandardView={onStandardView}
+          onFitToObject={onFitToObject}
+          keepViewOnRegenerate={keepViewOnRegenerate}
+          setKeepViewOnRegenerate={setKeepViewOnRegenerate}
+          getCameraView={getCameraView}
+          onGoToView={onGoToCameraView}
+        />
+      )}
+
+      {/* Auto-Rotate Settings */}
+      {!isPreviewDisabled && (
+        <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+          <h2 className="text-xl font-semibold text-center text-teal-400 mb-3">自動回転設定</h2>
+          <SliderInput id="autoRotateSpeedSlider" label="回転速度" value={autoRotateSettings.speed} {...AUTO_ROTATE_SPEED_RANGE} valueSuffix="°/秒" onChange={(v) => setAutoRotateSettings(prev => ({ ...prev, speed: v }))} accentColorClass="accent-teal-500" />
+          {(['x', 'y', 'z'] as const).map(axis => (
+            <SliderInput
+              key={axis}
+              id={`autoRotateAxis${axis.toUpperCase()}Slider`}
+              label={`${axis.toUpperCase()}軸 比率`}
+              value={autoRotateSettings.axisWeights[axis]}
+              {...AUTO_ROTATE_AXIS_WEIGHT_RANGE}
+              onChange={(v) => setAutoRotateSettings(prev => ({ ...prev, axisWeights: { ...prev.axisWeights, [axis]: v } }))}
+              accentColorClass="accent-teal-500"
+            />
+          ))}
         </div>
       )}
       <div className="mt-auto pt-4">
         <p className="text-xs text-gray-400 text-center">マウスで視点操作: 左ドラッグで回転、右ドラッグで平行移動、ホイールでズーム。自動回転ボタンがオフの場合、3秒間操作がないと自動回転します。</p>
-        <p className="text-xs text-gray-500 text-center mt-2">注意: 高い再帰レベル (特にメンガースポンジや八面体) は、ブラウザおちるかも</p>
+        <p className="text-xs text-gray-500 text-center mt-2">注意: 予測サイズがメモリ予算を超える場合は生成前に確認し、予算の4倍を超える場合は生成しません。</p>
       </div>
     </div>
   );
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import type { IfsPrimitive, IfsSettings, IfsTransform, Vector3D } from '../types';
+import { DEFAULT_IFS_SETTINGS, DEFAULT_IFS_TRANSFORM, IFS_MAX_TRANSFORMS } from '../constants';
+
+interface IfsEditorProps {
+  ifs: IfsSettings;
+  onChange: (ifs: IfsSettings) => void;
+}
+
+const PRIMITIVE_LABELS: Record<IfsPrimitive, string> = {
+  tetrahedron: '四面体',
+  cube: '立方体',
+  octahedron: '八面体',
+};
+
+const TRANSFORM_ROWS: { key: keyof IfsTransform; label: string; step: number }[] = [
+  { key: 'scale', label: '拡大率', step: 0.05 },
+  { key: 'rotation', label: '回転 (°)', step: 15 },
+  { key: 'translation', label: '移動', step: 0.05 },
+];
+
+// Keeps the typed text locally so partial input such as "-" or "0." is not rejected mid-edit;
+// only parseable values are passed on.
+const NumberField: React.FC<{ value: number; step: number; label: string; onChange: (value: number) => void }> = ({
+  value,
+  step,
+  label,
+  onChange,
+}) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    if (parseFloat(text) !== value) setText(String(value));
+  }, [value]);
+
+  return (
+    <input
+      type="number"
+      value={text}
+      step={step}
+      aria-label={label}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed)) onChange(parsed);
+      }}
+      className="w-full min-w-0 py-1 px-2 border border-gray-600 bg-gray-800 text-white rounded-md text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+    />
+  );
+};
+
+const IfsEditor: React.FC<IfsEditorProps> = ({ ifs, onChange }) => {
+  const updateTransform = (index: number, key: keyof IfsTransform, axis: keyof Vector3D, value: number) => {
+    const transforms = ifs.transforms.map((transform, i) =>
+      i === index ? { ...transform, [key]: { ...transform[key], [axis]: value } } : transform
+    );
+    onChange({ ...ifs, transforms });
+  };
+
+  const addTransform = () => {
+    onChange({ ...ifs, transforms: [...ifs.transforms, DEFAULT_IFS_TRANSFORM] });
+  };
+
+  const removeTransform = (index: number) => {
+    onChange({ ...ifs, transforms: ifs.transforms.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+      <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">IFS 設定</h2>
+      <div>
+        <label htmlFor="ifsPrimitiveSelector" className="block text-sm font-medium text-gray-300">基本形状:</label>
+        <select
+          id="ifsPrimitiveSelector"
+          value={ifs.primitive}
+          onChange={(e) => onChange({ ...ifs, primitive: e.target.value as IfsPrimitive })}
+          className="w-full mt-1 block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        >
+          {(Object.keys(PRIMITIVE_LABELS) as IfsPrimitive[]).map(primitive => (
+            <option key={primitive} value={primitive}>{PRIMITIVE_LABELS[primitive]}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-400 px-1">各レベルで形状を変換ごとに複製します (基本形状は -1〜1 の範囲、回転は XYZ 順)。</p>
+
+      {ifs.transforms.map((transform, index) => (
+        <div key={index} className="p-2 bg-gray-800 rounded-md space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-300">変換 {index + 1}</span>
+            <button
+              onClick={() => removeTransform(index)}
+              disabled={ifs.transforms.length <= 1}
+              className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+            >
+              削除
+            </button>
+          </div>
+          {TRANSFORM_ROWS.map(({ key, label, step }) => (
+            <div key={key} className="grid grid-cols-[4.5rem_1fr_1fr_1fr] gap-1 items-center">
+              <span className="text-xs text-gray-400">{label}</span>
+              {(['x', 'y', 'z'] as (keyof Vector3D)[]).map(axis => (
+                <NumberField
+                  key={axis}
+                  value={transform[key][axis]}
+                  step={step}
+                  label={`変換 ${index + 1} ${label} ${axis.toUpperCase()}`}
+                  onChange={(value) => updateTransform(index, key, axis, value)}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={addTransform}
+          disabled={ifs.transforms.length >= IFS_MAX_TRANSFORMS}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 px-3 rounded-lg disabled:opacity-50"
+        >
+          変換を追加
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_IFS_SETTINGS)}
+          className="flex-1 bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-3 rounded-lg"
+        >
+          初期値に戻す
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IfsEditor;
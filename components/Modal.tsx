@@ -1,25 +1,43 @@
-
 import React from 'react';
 
 interface ModalProps {
   isOpen: boolean;
   message: string;
   onClose: () => void;
+  onConfirm?: () => void; // When set, the modal asks for confirmation and onClose acts as cancel
+  confirmLabel?: string;
 }
 
-const Modal: React.FC<ModalProps> = ({ isOpen, message, onClose }) => {
+const Modal: React.FC<ModalProps> = ({ isOpen, message, onClose, onConfirm, confirmLabel = 'OK' }) => {
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-[1000]">
       <div className="bg-gray-800 text-white rounded-lg p-6 shadow-xl w-11/12 md:w-1/3">
-        <p className="mb-4 text-center">{message}</p>
-        <button
-          onClick={onClose}
-          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
-        >
-          OK
-        </button>
+        <p className="mb-4 text-center whitespace-pre-line break-words">{message}</p>
+        {onConfirm ? (
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-opacity-50"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={onConfirm}
+              className="flex-1 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-50"
+            >
+              {confirmLabel}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={onClose}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+          >
+            OK
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import type { FractalParameters, LightSettings, MaterialSettings } from '../types';
+import {
+  BUILTIN_PRESETS,
+  loadUserPresets,
+  parsePresetFile,
+  saveUserPresets,
+  serializePresetFile,
+  type FractalPreset,
+  type PresetSnapshot,
+} from '../utils/presets';
+import { downloadBlob } from '../utils/helpers';
+
+interface PresetManagerProps {
+  fractalParams: FractalParameters;
+  lightSettings: LightSettings;
+  materialSettings: MaterialSettings;
+  onApply: (snapshot: PresetSnapshot) => void;
+}
+
+const PRESET_EXPORT_FILE_NAME = 'fractal-presets.json';
+
+// Options are keyed 'builtin:<index>' or 'user:<index>'.
+const PresetManager: React.FC<PresetManagerProps> = ({ fractalParams, lightSettings, materialSettings, onApply }) => {
+  const [userPresets, setUserPresets] = useState<FractalPreset[]>(loadUserPresets);
+  const [selectedKey, setSelectedKey] = useState('builtin:0');
+  const [presetName, setPresetName] = useState('');
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [selectedGroup, selectedIndexText] = selectedKey.split(':');
+  const selectedPreset = (selectedGroup === 'builtin' ? BUILTIN_PRESETS : userPresets)[Number(selectedIndexText)];
+
+  const updateUserPresets = (presets: FractalPreset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  // Replaces presets of the same name, otherwise appends
+  const mergePresets = (presets: FractalPreset[]): FractalPreset[] => {
+    const merged = [...userPresets];
+    for (const preset of presets) {
+      const index = merged.findIndex(p => p.name === preset.name);
+      if (index >= 0) merged[index] = preset;
+      else merged.push(preset);
+    }
+    return merged;
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const merged = mergePresets([{ name, fractalParams, lightSettings, materialSettings }]);
+    updateUserPresets(merged);
+    setSelectedKey(`user:${merged.findIndex(p => p.name === name)}`);
+    setPresetName('');
+    setStatus({ text: `「${name}」を保存しました。`, isError: false });
+  };
+
+  const handleDelete = () => {
+    if (selectedGroup !== 'user' || !selectedPreset) return;
+    updateUserPresets(userPresets.filter(p => p !== selectedPreset));
+    setSelectedKey('builtin:0');
+    setStatus({ text: `「${selectedPreset.name}」を削除しました。`, isError: false });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializePresetFile(userPresets)], { type: 'application/json' }), PRESET_EXPORT_FILE_NAME);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      updateUserPresets(mergePresets(imported));
+      setStatus({ text: `${imported.length} 件のプリセットを読み込みました。`, isError: false });
+    } catch (error: any) {
+      setStatus({ text: `読み込みに失敗しました: ${error.message}`, isError: true });
+    }
+  };
+
+  const buttonClass = 'flex-1 text-white text-sm font-semibold py-2 px-3 rounded-lg disabled:opacity-50';
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-700 rounded-md">
+      <h2 className="text-lg font-semibold text-center text-blue-300 mb-2">プリセット</h2>
+      <select
+        value={selectedKey}
+        onChange={(e) => setSelectedKey(e.target.value)}
+        className="w-full block py-2 px-3 border border-gray-600 bg-gray-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        aria-label="プリセット選択"
+      >
+        <optgroup label="組み込み">
+          {BUILTIN_PRESETS.map((preset, index) => (
+            <option key={`builtin:${index}`} value={`builtin:${index}`}>{preset.name}</option>
+          ))}
+        </optgroup>
+        {userPresets.length > 0 && (
+          <optgroup label="保存済み">
+            {userPresets.map((preset, index) => (
+              <option key={`user:${index}`} value={`user:${index}`}>{preset.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <div className="flex gap-2">
+        <button onClick={() => selectedPreset && onApply(selectedPreset)} disabled={!selectedPreset} className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}>
+          適用
+        </button>
+        <button onClick={handleDelete} disabled={selectedGroup !== 'user'} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>
+          削除
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="プリセット名"
+          aria-label="プリセット名"
+          className="flex-1 min-w-0 py-2 px-3 border border-gray-600 bg-gray-800 text-white rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button onClick={handleSave} disabled={!presetName.trim()} className="bg-green-600 hover:bg-green-700 text-white text-sm font-semibold py-2 px-3 rounded-lg disabled:opacity-50">
+          現在の設定を保存
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={handleExport} disabled={userPresets.length === 0} className={`${buttonClass} bg-gray-600 hover:bg-gray-500`}>
+          JSON書き出し
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} bg-gray-600 hover:bg-gray-500`}>
+          JSON読み込み
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {status && (
+        <p className={`text-xs px-1 ${status.isError ? 'text-red-400' : 'text-gray-400'}`} role="status">{status.text}</p>
+      )}
+      <p className="text-xs text-gray-400 px-1">前回のセッションの設定は自動的に保存され、次回起動時に復元されます。</p>
+    </div>
+  );
+};
+
+export default PresetManager;
@@ -24,7 +24,7 @@ const SliderInput: React.FC<SliderInputProps> = ({
   valueSuffix = '',
   accentColorClass = 'accent-blue-500'
 }) => {
-  const displayValue = step >= 1 ? value.toFixed(0) : value.toFixed(1);
+  const displayValue = value.toFixed(step >= 1 ? 0 : step >= 0.1 ? 1 : 2);
 
   return (
     <div>
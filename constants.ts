@@ -1,14 +1,63 @@
 
-import { FractalType, type FractalParameters, type LightSettings } from './types';
+import { FractalType, type AutoRotateSettings, type ColoringSettings, type EscapeTimeSettings, type FractalParameters, type IfsSettings, type IfsTransform, type LightSettings, type MaterialSettings, type NumericRange, type TurntableSettings } from './types';
 
 export const AUTO_ROTATE_DELAY = 3000; // ms
-export const AUTO_ROTATE_SPEED = 0.002;
+// Longest frame step applied to the auto-rotation, so returning to a background tab does not jump
+export const AUTO_ROTATE_MAX_STEP = 0.1; // s
+export const AUTOSAVE_DELAY = 1000; // ms after the last settings change
+
+// Undo history of fractal, light and material settings
+export const HISTORY_LIMIT = 100;
+// Edits of the same field closer together than this (ms) form one entry, e.g. a slider drag
+export const HISTORY_COALESCE_DELAY = 600;
+// Recent generation results kept for undo/redo, also bounded by the memory budget
+export const GEOMETRY_CACHE_MAX_ENTRIES = 6;
+
+export const IFS_MAX_TRANSFORMS = 8;
+
+export const DEFAULT_IFS_TRANSFORM: IfsTransform = {
+  scale: { x: 0.5, y: 0.5, z: 0.5 },
+  rotation: { x: 0, y: 0, z: 0 },
+  translation: { x: 0, y: 0, z: 0 },
+};
+
+// Four half-scale copies moved halfway towards each corner: reproduces the Sierpinski tetrahedron.
+export const DEFAULT_IFS_SETTINGS: IfsSettings = {
+  primitive: 'tetrahedron',
+  transforms: [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]].map(([x, y, z]) => ({
+    ...DEFAULT_IFS_TRANSFORM,
+    translation: { x: x * 0.5, y: y * 0.5, z: z * 0.5 },
+  })),
+};
+
+export const DEFAULT_ESCAPE_TIME_SETTINGS: EscapeTimeSettings = {
+  power: 8,
+  boxScale: 2,
+  resolution: 96,
+};
+
+export const DEFAULT_COLORING_SETTINGS: ColoringSettings = {
+  mode: 'solid',
+  axis: 'y',
+  gradient: [
+    { position: 0, color: '#1E3A8A' },
+    { position: 0.5, color: '#14B8A6' },
+    { position: 1, color: '#FDE047' },
+  ],
+};
+export const GRADIENT_MIN_STOPS = 2;
+export const GRADIENT_MAX_STOPS = 8;
+export const GRADIENT_POSITION_RANGE: NumericRange = { min: 0, max: 1, step: 0.01 };
 
 export const DEFAULT_FRACTAL_PARAMS: FractalParameters = {
   type: FractalType.SierpinskiTetrahedron,
   level: 2, // Reduced default for performance
   size: 5.1,
   color: '#1E90FF',
+  coloring: DEFAULT_COLORING_SETTINGS,
+  ifs: DEFAULT_IFS_SETTINGS,
+  escapeTime: DEFAULT_ESCAPE_TIME_SETTINGS,
+  surface: 'raw', // As before the surface option existed, so links without one keep their meshes
 };
 
 export const DEFAULT_LIGHT_SETTINGS: LightSettings = {
@@ -19,8 +68,59 @@ export const DEFAULT_LIGHT_SETTINGS: LightSettings = {
   hemisphereIntensity: 0.7,
 };
 
-export const MAX_LEVELS: Record<FractalType, number> = {
-  [FractalType.SierpinskiTetrahedron]: 10, // Adjusted for performance
-  [FractalType.MengerSponge]: 10,          // Adjusted for performance
-  [FractalType.SierpinskiOctahedron]: 10,  // Adjusted for performance
+// Slider ranges, shared by ControlsPanel and the validation of shared links
+export const FRACTAL_SIZE_RANGE: NumericRange = { min: 1, max: 10, step: 0.1 };
+
+export const ESCAPE_TIME_RANGES: Record<keyof EscapeTimeSettings, NumericRange> = {
+  power: { min: 2, max: 16, step: 1 },
+  boxScale: { min: -3, max: 3, step: 0.1 },
+  resolution: { min: 32, max: 256, step: 16 },
+};
+
+export const LIGHT_INTENSITY_RANGES: Record<'ambientIntensity' | 'directionalIntensity' | 'fillIntensity' | 'hemisphereIntensity', NumericRange> = {
+  ambientIntensity: { min: 0, max: 3, step: 0.1 },
+  directionalIntensity: { min: 0, max: 5, step: 0.1 },
+  fillIntensity: { min: 0, max: 3, step: 0.1 },
+  hemisphereIntensity: { min: 0, max: 3, step: 0.1 },
+};
+
+export const LIGHT_POSITION_RANGE: NumericRange = { min: -50, max: 50, step: 1 };
+
+// About 0.12 rad/s about Y with a slower tumble about X
+export const DEFAULT_AUTO_ROTATE_SETTINGS: AutoRotateSettings = {
+  speed: 7,
+  axisWeights: { x: 0.3, y: 1, z: 0 },
+};
+
+export const AUTO_ROTATE_SPEED_RANGE: NumericRange = { min: 0, max: 90, step: 1 };
+export const AUTO_ROTATE_AXIS_WEIGHT_RANGE: NumericRange = { min: -1, max: 1, step: 0.1 };
+
+export const CAMERA_TRANSITION_DURATION = 800; // ms, for standard views, fitting and bookmarks
+
+export const DEFAULT_TURNTABLE_SETTINGS: TurntableSettings = { axis: 'y', degrees: 360, frames: 120 };
+export const TURNTABLE_DEGREES_RANGE: NumericRange = { min: 1, max: 720, step: 1 };
+export const TURNTABLE_FRAMES_RANGE: NumericRange = { min: 2, max: 720, step: 1 };
+
+// Memory budget for a single generation; larger estimates need confirmation
+export const DEFAULT_MEMORY_BUDGET_MB = 1024;
+export const MIN_MEMORY_BUDGET_MB = 256;
+export const MAX_MEMORY_BUDGET_MB = 8192;
+// Estimates beyond this multiple of the budget are refused outright
+export const MEMORY_BUDGET_REFUSE_FACTOR = 4;
+
+// Surface settings of the preview's MeshStandardMaterial, also written into glTF and MTL exports.
+export const DEFAULT_MATERIAL_SETTINGS: MaterialSettings = {
+  metalness: 0.15,
+  roughness: 0.8,
+  flatShading: false,
+  wireframe: false,
+  opacity: 1,
+  emissive: '#000000',
+  side: 'auto',
+};
+
+export const MATERIAL_RANGES: Record<'metalness' | 'roughness' | 'opacity', NumericRange> = {
+  metalness: { min: 0, max: 1, step: 0.05 },
+  roughness: { min: 0, max: 1, step: 0.05 },
+  opacity: { min: 0.05, max: 1, step: 0.05 },
 };
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './utils/fractalSetup';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -1,15 +1,78 @@
 
+// Ids of the built-in fractal types; generators registered at startup may use any other unique id.
 export enum FractalType {
   SierpinskiTetrahedron = 'sierpinskiTetrahedron',
   MengerSponge = 'mengerSponge',
   SierpinskiOctahedron = 'sierpinskiOctahedron',
+  CubeFlake = 'cubeFlake',
+  DodecahedronFlake = 'dodecahedronFlake',
+  IcosahedronFlake = 'icosahedronFlake',
+  JerusalemCube = 'jerusalemCube',
+  MoselySnowflake = 'moselySnowflake',
+  CantorDust = 'cantorDust',
+  KochTetrahedron = 'kochTetrahedron',
+  QuadraticKochSurface = 'quadraticKochSurface',
+  Mandelbulb = 'mandelbulb',
+  Mandelbox = 'mandelbox',
+  Ifs = 'ifs',
 }
 
+export type FractalTypeId = FractalType | string;
+
 export interface FractalParameters {
-  type: FractalType;
+  type: FractalTypeId;
   level: number;
   size: number;
   color: string;
+  coloring: ColoringSettings;
+  ifs: IfsSettings; // Only used by types with an 'ifs' parameter section
+  escapeTime: EscapeTimeSettings; // Only used by types with an 'escapeTime' parameter section
+  surface: FractalSurfaceMode;
+}
+
+// How the surface is colored. 'solid' uses FractalParameters.color; the others map a per-vertex value
+// in 0-1 through the gradient: the recursion depth at which the vertex appears, the index of the
+// top-level branch, the position along an axis, or the distance from the centre of the bounds.
+export type ColoringMode = 'solid' | 'depth' | 'branch' | 'axis' | 'radial';
+
+export interface GradientStop {
+  position: number; // 0-1
+  color: string; // '#RRGGBB'
+}
+
+export interface ColoringSettings {
+  mode: ColoringMode;
+  axis: RotationAxis; // Only used by 'axis'
+  gradient: GradientStop[]; // At least two stops, in any order
+}
+
+// 'raw': every face of every cell; 'outer': coincident faces between touching cells removed.
+export type FractalSurfaceMode = 'raw' | 'outer';
+
+// Inputs that shape the generated geometry (everything in FractalParameters except appearance).
+export type FractalGenerationParams = Pick<FractalParameters, 'type' | 'level' | 'size' | 'ifs' | 'escapeTime' | 'surface'>;
+
+// Escape-time fractals are meshed with marching cubes; their level is the iteration count.
+export interface EscapeTimeSettings {
+  power: number; // Mandelbulb exponent
+  boxScale: number; // Mandelbox scale factor
+  resolution: number; // Marching-cubes cells per axis
+}
+
+export type IfsPrimitive = 'tetrahedron' | 'cube' | 'octahedron';
+
+// One affine map p -> translation + R * (scale * p), in units of the unit-size fractal.
+export interface IfsTransform {
+  scale: Vector3D;
+  rotation: Vector3D; // Euler angles in degrees, applied in THREE's 'XYZ' order
+  translation: Vector3D;
+}
+
+// A user-defined iterated function system: each level replaces every copy of the primitive
+// with one copy per transform.
+export interface IfsSettings {
+  primitive: IfsPrimitive;
+  transforms: IfsTransform[];
 }
 
 export interface LightSettings {
@@ -20,16 +83,153 @@ export interface LightSettings {
   hemisphereIntensity: number;
 }
 
+// Bounds and step of a slider.
+export interface NumericRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
 export interface Vector3D {
   x: number;
   y: number;
   z: number;
 }
 
-export interface Face {
-  v1: number;
-  v2: number;
-  v3: number;
+// Generated geometry shared by the preview and the exporters.
+// Produced in the generation worker and transferred to the main thread without copying.
+export interface FractalMesh {
+  positions: Float32Array; // x, y, z per vertex
+  indices: Uint32Array; // three vertex indices per triangle
+  vertexDepths: Uint8Array; // Recursion depth at which each vertex first appears
+  branchFaceOffsets: number[]; // Index of the first triangle of each top-level sub-cell
+}
+
+// Leaf transforms for the instanced preview: every leaf is the same primitive, translated and uniformly scaled.
+export interface FractalInstances {
+  primitivePositions: Float32Array; // x, y, z per vertex of the primitive at scale 1
+  primitiveIndices: Uint32Array;
+  transforms: Float32Array; // Centre x, y, z and scale per leaf
+  branchInstanceOffsets: number[]; // Index of the first leaf of each top-level sub-cell
+}
+
+// Voxelization used by the .vox exporter.
+// 'lattice': exact on a fixed dimension^3 grid of integer cells (e.g. the Menger sponge on 3^level).
+// 'membership': point test in the [-1, 1]^3 bounding cube of a unit-size fractal, sampled at the chosen resolution.
+export type FractalVoxelizer =
+  | { kind: 'lattice'; dimension: (level: number) => number; contains: (x: number, y: number, z: number, level: number) => boolean }
+  | { kind: 'membership'; contains: (x: number, y: number, z: number, level: number) => boolean };
+
+// Occupancy grid in three.js axes (Y up); voxels[x + size * (y + size * z)] is 1 when filled.
+// Rasterized in the generation worker and transferred to the main thread like FractalMesh.
+export interface VoxelGrid {
+  size: number;
+  voxels: Uint8Array;
+}
+
+// Settings section a type adds below the common controls; its settings are also carried in shared links.
+// 'ifs': the transform editor for FractalParameters.ifs.
+// 'escapeTime': the isosurface settings in FractalParameters.escapeTime; shapeParameter names the one
+// setting besides the resolution that the type reads.
+export type FractalParameterSection =
+  | { kind: 'ifs' }
+  | { kind: 'escapeTime'; shapeParameter: 'power' | 'boxScale' };
+
+// A fractal type as registered in utils/fractalRegistry.ts.
+export interface FractalDefinition {
+  id: FractalTypeId;
+  name: string; // Label in the type selector
+  englishName: string; // Written into exported file metadata
+  minLevel: number;
+  maxLevel: number;
+  levelLabel?: string; // Label of the level slider when the level is not a recursion depth
+  defaultLevel?: number; // Level applied when switching to this type; otherwise the current level is clamped
+  defaultSize: number;
+  side: 'front' | 'double'; // THREE.FrontSide / THREE.DoubleSide in the preview, doubleSided in glTF
+  parameterSection?: FractalParameterSection;
+  // Runs inside the generation worker, so it must not touch the DOM or the THREE global.
+  generate: (params: FractalGenerationParams, onProgress?: (fraction: number) => void) => FractalMesh;
+  // Welded vertex and triangle counts (an upper bound is fine), used for the pre-generation size estimate.
+  countElements: (params: FractalGenerationParams) => { vertices: number; faces: number };
+  voxelizer?: FractalVoxelizer; // Types without one cannot be exported as .vox
+  // Types without instancing are always previewed as the full mesh. Runs in the worker like generate.
+  instancing?: {
+    countInstances: (params: FractalGenerationParams) => number;
+    generate: (params: FractalGenerationParams, onProgress?: (fraction: number) => void) => FractalInstances;
+  };
+}
+
+// Surface appearance written by exporters that carry materials (glTF, OBJ + MTL).
+export interface ExportMaterial {
+  color: string; // '#RRGGBB', as held in FractalParameters.color
+  metalness: number;
+  roughness: number;
+  doubleSided: boolean;
+  opacity: number; // 0..1; below 1 the material is written as blended
+  emissive: string; // '#RRGGBB'
+}
+
+// 'auto' follows FractalDefinition.side
+export type MaterialSide = 'auto' | 'front' | 'back' | 'double';
+
+// Preview surface settings. They are applied to the existing mesh, so changing them never regenerates.
+export interface MaterialSettings {
+  metalness: number;
+  roughness: number;
+  flatShading: boolean;
+  wireframe: boolean; // Draws the triangle edges over the shaded surface
+  opacity: number;
+  emissive: string; // '#RRGGBB'
+  side: MaterialSide;
+}
+
+export type StlFormat = 'binary' | 'ascii';
+
+export type GltfFormat = 'glb' | 'gltf';
+
+export type PlyFormat = 'binary' | 'ascii';
+
+// Exports that run with a progress bar and a cancel button.
+export type ProgressExportKind = 'obj' | 'vox';
+
+// Settings of a tiled PNG render; width and height are the output size in pixels.
+export interface ImageRenderOptions {
+  width: number;
+  height: number;
+  supersampling: number; // Rendered pixels per output pixel along each axis
+  transparentBackground: boolean;
+}
+
+export type RotationAxis = 'x' | 'y' | 'z';
+
+// Camera orbit around the view target; frame i is rotated by degrees * i / frames about the world axis.
+export interface TurntableSettings {
+  axis: RotationAxis;
+  degrees: number;
+  frames: number;
+}
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
+export type StandardView = 'front' | 'top' | 'side' | 'isometric';
+
+// A complete viewpoint, as restored by camera bookmarks. The up vector is always +Y, which OrbitControls orbits about.
+export interface CameraView {
+  projection: CameraProjection;
+  position: Vector3D;
+  target: Vector3D; // OrbitControls target
+  orthographicHalfHeight: number; // Half the visible height of the orthographic view, zoom included
+}
+
+export interface CameraBookmark {
+  name: string;
+  view: CameraView;
+}
+
+// Preview auto-rotation of the fractal mesh, independent of the frame rate.
+export interface AutoRotateSettings {
+  speed: number; // Degrees per second
+  axisWeights: Vector3D; // Share of the speed applied about each local axis
 }
 
 // Declaration for THREE.js types when loaded from CDN
@@ -37,6 +237,7 @@ declare global {
   namespace THREE {
     class OrbitControls {
       constructor(object: Camera, domElement?: HTMLElement);
+      object: Camera; // May be swapped for another camera, e.g. to change the projection
       enabled: boolean;
       target: Vector3;
       enableDamping: boolean;
@@ -63,11 +264,13 @@ declare global {
       id: number;
       name: string;
       position: Vector3;
+      up: Vector3;
       rotation: Euler;
       scale: Vector3;
       castShadow: boolean;
       receiveShadow: boolean;
       visible: boolean;
+      frustumCulled: boolean;
       add(...object: Object3D[]): this;
       remove(...object: Object3D[]): this;
       getObjectByName(name: string): Object3D | undefined;
@@ -106,6 +309,8 @@ declare global {
       length(): number;
       normalize(): this;
       copy(v: Vector3): this;
+      distanceTo(v: Vector3): number;
+      applyAxisAngle(axis: Vector3, angle: number): this;
       // Note: lookAt is on Object3D, inherited by Camera
       // Add other Vector3 methods/properties if needed
     }
@@ -141,6 +346,7 @@ declare global {
 
     class Camera extends Object3D {
       projectionMatrix: Matrix4;
+      clone(): this;
       updateProjectionMatrix(): void;
       lookAt(vector: Vector3 | number, y?: number, z?: number): void; // Explicitly add here
       // Add other Camera methods/properties if needed
@@ -152,6 +358,9 @@ declare global {
       aspect: number;
       near: number;
       far: number;
+      // Renders only the (x, y, width, height) window of a fullWidth x fullHeight view, for tiled rendering
+      setViewOffset(fullWidth: number, fullHeight: number, x: number, y: number, width: number, height: number): void;
+      clearViewOffset(): void;
       // Add other PerspectiveCamera methods/properties if needed
     }
     
@@ -163,7 +372,10 @@ declare global {
         bottom: number;
         near: number;
         far: number;
+        zoom: number;
         updateProjectionMatrix(): void;
+        setViewOffset(fullWidth: number, fullHeight: number, x: number, y: number, width: number, height: number): void;
+        clearViewOffset(): void;
         // Add other OrthographicCamera methods/properties if needed
     }
 
@@ -172,6 +384,7 @@ declare global {
       canvas?: HTMLCanvasElement;
       antialias?: boolean;
       alpha?: boolean;
+      preserveDrawingBuffer?: boolean;
       // Add other parameters if needed
     }
 
@@ -192,7 +405,9 @@ declare global {
       setPixelRatio(value: number): void;
       setSize(width: number, height: number, updateStyle?: boolean): void;
       render(scene: Scene, camera: Camera): void;
+      setClearColor(color: ColorRepresentation, alpha?: number): void;
       dispose(): void;
+      forceContextLoss(): void;
       // Add other WebGLRenderer methods/properties if needed
     }
 
@@ -232,6 +447,8 @@ declare global {
 
     class BufferAttribute {
       constructor(array: ArrayLike<number>, itemSize: number, normalized?: boolean);
+      array: ArrayLike<number>;
+      needsUpdate: boolean;
       // Add other BufferAttribute methods/properties if needed
     }
     
@@ -247,6 +464,7 @@ declare global {
       constructor();
       attributes: { [name: string]: BufferAttribute | InterleavedBufferAttribute };
       setAttribute(name: string, attribute: BufferAttribute | InterleavedBufferAttribute): BufferGeometry;
+      getAttribute(name: string): BufferAttribute | undefined;
       setIndex(index: BufferAttribute | number[] | null): BufferGeometry;
       computeVertexNormals(): void;
       computeBoundingSphere(): void;
@@ -266,6 +484,11 @@ declare global {
       transparent: boolean;
       opacity: number;
       visible: boolean;
+      vertexColors: boolean; // Multiplies the color by the geometry's 'color' attribute
+      needsUpdate: boolean; // Recompiles the shader, e.g. after toggling flatShading or transparent
+      polygonOffset: boolean;
+      polygonOffsetFactor: number;
+      polygonOffsetUnits: number;
       dispose(): void;
       // Add other Material methods/properties if needed
     }
@@ -276,6 +499,7 @@ declare global {
       roughness?: number;
       flatShading?: boolean;
       side?: Side;
+      emissive?: ColorRepresentation;
       // Add other parameters if needed
     }
 
@@ -285,14 +509,52 @@ declare global {
       metalness: number;
       roughness: number;
       flatShading: boolean;
+      emissive: Color;
       // Add other MeshStandardMaterial methods/properties if needed
     }
 
+    interface MeshBasicMaterialParameters {
+      color?: ColorRepresentation;
+      wireframe?: boolean;
+      transparent?: boolean;
+      opacity?: number;
+    }
+
+    class MeshBasicMaterial extends Material {
+      constructor(parameters?: MeshBasicMaterialParameters);
+      color: Color;
+      wireframe: boolean;
+    }
+
     class Mesh extends Object3D {
       constructor(geometry?: BufferGeometry, material?: Material | Material[]);
       geometry: BufferGeometry;
       material: Material | Material[];
       // Add other Mesh methods/properties if needed
     }
+
+    class InstancedBufferAttribute extends BufferAttribute {
+      constructor(array: ArrayLike<number>, itemSize: number, normalized?: boolean, meshPerAttribute?: number);
+      array: Float32Array;
+      needsUpdate: boolean;
+    }
+
+    class InstancedMesh extends Mesh {
+      constructor(geometry: BufferGeometry, material: Material | Material[], count: number);
+      count: number;
+      instanceMatrix: InstancedBufferAttribute; // Column-major 4x4 matrix per instance
+      instanceColor: InstancedBufferAttribute | null; // r, g, b per instance, multiplied with the material color
+      dispose(): void; // Releases the instance matrix buffer
+    }
+  }
+
+  // File System Access API (Chromium only, not yet in lib.dom)
+  interface SaveFilePickerOptions {
+    suggestedName?: string;
+    types?: { description?: string; accept: Record<string, string[]> }[];
+  }
+
+  interface Window {
+    showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
   }
 }
@@ -0,0 +1,42 @@
+import type { IfsTransform } from '../types';
+
+// Row-major 3x4 affine matrix: [r00, r01, r02, tx, r10, r11, r12, ty, r20, r21, r22, tz].
+export type AffineMatrix = number[];
+
+export function scalingMatrix(scale: number): AffineMatrix {
+  return [scale, 0, 0, 0, 0, scale, 0, 0, 0, 0, scale, 0];
+}
+
+// translation + R * S, with R built like THREE.Matrix4.makeRotationFromEuler for the 'XYZ' order.
+export function ifsTransformToMatrix({ scale, rotation, translation }: IfsTransform): AffineMatrix {
+  const toRadians = Math.PI / 180;
+  const a = Math.cos(rotation.x * toRadians), b = Math.sin(rotation.x * toRadians);
+  const c = Math.cos(rotation.y * toRadians), d = Math.sin(rotation.y * toRadians);
+  const e = Math.cos(rotation.z * toRadians), f = Math.sin(rotation.z * toRadians);
+  return [
+    c * e * scale.x, -c * f * scale.y, d * scale.z, translation.x,
+    (a * f + b * e * d) * scale.x, (a * e - b * f * d) * scale.y, -b * c * scale.z, translation.y,
+    (b * f - a * e * d) * scale.x, (b * e + a * f * d) * scale.y, a * c * scale.z, translation.z,
+  ];
+}
+
+// Returns the map that applies b first, then a.
+export function multiplyAffine(a: AffineMatrix, b: AffineMatrix): AffineMatrix {
+  const result = new Array<number>(12);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 4; col++) {
+      let value = col === 3 ? a[row * 4 + 3] : 0;
+      for (let k = 0; k < 3; k++) {
+        value += a[row * 4 + k] * b[k * 4 + col];
+      }
+      result[row * 4 + col] = value;
+    }
+  }
+  return result;
+}
+
+export function linearDeterminant(m: AffineMatrix): number {
+  return m[0] * (m[5] * m[10] - m[6] * m[9])
+    - m[1] * (m[4] * m[10] - m[6] * m[8])
+    + m[2] * (m[4] * m[9] - m[5] * m[8]);
+}
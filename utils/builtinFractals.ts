@@ -0,0 +1,266 @@
+import { FractalType, type FractalDefinition } from '../types';
+import {
+  generateSierpinskiTetrahedron,
+  generateMengerSponge,
+  generateSierpinskiOctahedron,
+  generateIfsFractal,
+  generateJerusalemCube,
+  generateMoselySnowflake,
+  generateCantorDust,
+  generateKochTetrahedron,
+  generateQuadraticKochSurface,
+  generatePolyhedralFlake,
+  generateMandelbulb,
+  generateMandelbox,
+  countJerusalemCubeLeaves,
+  mengerSpongeCell,
+  moselySnowflakeCell,
+  cantorDustCell,
+  JERUSALEM_CUBE_RATIO,
+  IFS_PRIMITIVES,
+} from './fractalGeneration';
+import {
+  generateSierpinskiTetrahedronInstances,
+  generateCubeGridInstances,
+  generateSierpinskiOctahedronInstances,
+  generatePolyhedralFlakeInstances,
+  generateJerusalemCubeInstances,
+} from './fractalInstances';
+import { isInCubeGridCell, isInJerusalemCube, isInPolyhedralFlake, isInSierpinskiOctahedron, isInSierpinskiTetrahedron } from './fractalMembership';
+import { PLATONIC_SOLIDS } from './platonicSolids';
+
+// Vertex counts: tetrahedron, octahedron, Mosely snowflake and Cantor dust follow from their recurrences;
+// the Menger sponge formula is fitted to exact lattice counts (levels 0-5) and is exact at those levels.
+// Marching-cubes output grows with the surface area in cells; the factor per squared resolution is a
+// generous fit to meshes at the default settings (about 6 for the Mandelbulb, 17 for the Mandelbox).
+function estimateIsosurfaceElements(resolution: number, facesPerSquareCell: number): { vertices: number; faces: number } {
+  const faces = facesPerSquareCell * resolution * resolution;
+  return { vertices: faces / 2, faces };
+}
+
+export const BUILTIN_FRACTALS: FractalDefinition[] = [
+  {
+    id: FractalType.SierpinskiTetrahedron,
+    name: 'シェルピンスキー四面体',
+    englishName: 'Sierpinski Tetrahedron',
+    minLevel: 0,
+    maxLevel: 10, // Adjusted for performance
+    defaultSize: 5.1,
+    side: 'front',
+    generate: ({ level, size }, onProgress) => generateSierpinskiTetrahedron(level, size, onProgress),
+    countElements: ({ level }) => ({ vertices: 2 * Math.pow(4, level) + 2, faces: 4 * Math.pow(4, level) }),
+    voxelizer: { kind: 'membership', contains: isInSierpinskiTetrahedron },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(4, level),
+      generate: ({ level, size }, onProgress) => generateSierpinskiTetrahedronInstances(level, size, onProgress),
+    },
+  },
+  {
+    id: FractalType.MengerSponge,
+    name: 'メンガースポンジ (立方体)',
+    englishName: 'Menger Sponge',
+    minLevel: 0,
+    maxLevel: 10, // Adjusted for performance
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generateMengerSponge(level, size, onProgress),
+    countElements: ({ level }) => ({
+      vertices: Math.round((576 / 323) * Math.pow(20, level) + (88 / 35) * Math.pow(8, level)
+        + (192 / 85) * Math.pow(3, level) + 192 / 133),
+      faces: 12 * Math.pow(20, level),
+    }),
+    voxelizer: { kind: 'lattice', dimension: level => Math.pow(3, level), contains: (x, y, z, level) => isInCubeGridCell(x, y, z, level, mengerSpongeCell) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(20, level),
+      generate: ({ level, size }, onProgress) => generateCubeGridInstances(level, size, mengerSpongeCell, onProgress),
+    },
+  },
+  {
+    id: FractalType.SierpinskiOctahedron,
+    name: 'シェルピンスキー八面体',
+    englishName: 'Sierpinski Octahedron',
+    minLevel: 0,
+    maxLevel: 10, // Adjusted for performance
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generateSierpinskiOctahedron(level, size, onProgress),
+    countElements: ({ level }) => ({ vertices: 2 * Math.pow(6, level) + 3 * Math.pow(2, level) + 1, faces: 8 * Math.pow(6, level) }),
+    voxelizer: { kind: 'membership', contains: (x, y, z, level) => isInSierpinskiOctahedron(x, y, z, 1, level) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(6, level),
+      generate: ({ level, size }, onProgress) => generateSierpinskiOctahedronInstances(level, size, onProgress),
+    },
+  },
+  {
+    id: FractalType.CubeFlake,
+    name: '立方体フレーク',
+    englishName: 'Cube Flake',
+    minLevel: 0,
+    maxLevel: 6,
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generatePolyhedralFlake('cube', level, size, onProgress),
+    // Half-size copies tile the parent, so every vertex lies on a (2^n + 1)^3 lattice
+    countElements: ({ level }) => ({ vertices: Math.pow(Math.pow(2, level) + 1, 3), faces: 12 * Math.pow(8, level) }),
+    voxelizer: { kind: 'membership', contains: (x, y, z, level) => isInPolyhedralFlake(x, y, z, 'cube', level) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(8, level),
+      generate: ({ level, size }, onProgress) => generatePolyhedralFlakeInstances('cube', level, size, onProgress),
+    },
+  },
+  {
+    id: FractalType.DodecahedronFlake,
+    name: '十二面体フレーク',
+    englishName: 'Dodecahedron Flake',
+    minLevel: 0,
+    maxLevel: 4,
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generatePolyhedralFlake('dodecahedron', level, size, onProgress),
+    // Upper bound: assumes the touching copies share no vertices
+    countElements: ({ level }) => ({ vertices: 20 * Math.pow(20, level), faces: PLATONIC_SOLIDS.dodecahedron.faces.length * Math.pow(20, level) }),
+    voxelizer: { kind: 'membership', contains: (x, y, z, level) => isInPolyhedralFlake(x, y, z, 'dodecahedron', level) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(20, level),
+      generate: ({ level, size }, onProgress) => generatePolyhedralFlakeInstances('dodecahedron', level, size, onProgress),
+    },
+  },
+  {
+    id: FractalType.IcosahedronFlake,
+    name: '二十面体フレーク',
+    englishName: 'Icosahedron Flake',
+    minLevel: 0,
+    maxLevel: 5,
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generatePolyhedralFlake('icosahedron', level, size, onProgress),
+    // Upper bound: assumes the touching copies share no vertices
+    countElements: ({ level }) => ({ vertices: 12 * Math.pow(12, level), faces: 20 * Math.pow(12, level) }),
+    voxelizer: { kind: 'membership', contains: (x, y, z, level) => isInPolyhedralFlake(x, y, z, 'icosahedron', level) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(12, level),
+      generate: ({ level, size }, onProgress) => generatePolyhedralFlakeInstances('icosahedron', level, size, onProgress),
+    },
+  },
+  {
+    id: FractalType.JerusalemCube,
+    name: 'エルサレムキューブ',
+    englishName: 'Jerusalem Cube',
+    minLevel: 0,
+    maxLevel: 5,
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generateJerusalemCube(level, size, onProgress),
+    // Upper bound: edge cubes meet the corner cubes away from their corners, so few vertices are shared
+    countElements: ({ level }) => ({ vertices: 8 * countJerusalemCubeLeaves(level), faces: 12 * countJerusalemCubeLeaves(level) }),
+    voxelizer: { kind: 'membership', contains: (x, y, z, level) => isInJerusalemCube(x, y, z, 1, level, JERUSALEM_CUBE_RATIO) },
+    instancing: {
+      countInstances: ({ level }) => countJerusalemCubeLeaves(level),
+      generate: ({ level, size }, onProgress) => generateJerusalemCubeInstances(level, size, onProgress),
+    },
+  },
+  {
+    id: FractalType.MoselySnowflake,
+    name: 'モーズリー・スノーフレーク',
+    englishName: 'Mosely Snowflake',
+    minLevel: 0,
+    maxLevel: 6,
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generateMoselySnowflake(level, size, onProgress),
+    // The centre cell touches each corner cell in exactly one vertex: V(n) = 9 V(n - 1) - 8
+    countElements: ({ level }) => ({ vertices: 7 * Math.pow(9, level) + 1, faces: 12 * Math.pow(9, level) }),
+    voxelizer: { kind: 'lattice', dimension: level => Math.pow(3, level), contains: (x, y, z, level) => isInCubeGridCell(x, y, z, level, moselySnowflakeCell) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(9, level),
+      generate: ({ level, size }, onProgress) => generateCubeGridInstances(level, size, moselySnowflakeCell, onProgress),
+    },
+  },
+  {
+    id: FractalType.CantorDust,
+    name: 'カントールの塵 (3D)',
+    englishName: '3D Cantor Dust',
+    minLevel: 0,
+    maxLevel: 6,
+    defaultSize: 5.1,
+    side: 'double',
+    generate: ({ level, size }, onProgress) => generateCantorDust(level, size, onProgress),
+    // The corner cells never touch, so no vertices are shared
+    countElements: ({ level }) => ({ vertices: 8 * Math.pow(8, level), faces: 12 * Math.pow(8, level) }),
+    voxelizer: { kind: 'lattice', dimension: level => Math.pow(3, level), contains: (x, y, z, level) => isInCubeGridCell(x, y, z, level, cantorDustCell) },
+    instancing: {
+      countInstances: ({ level }) => Math.pow(8, level),
+      generate: ({ level, size }, onProgress) => generateCubeGridInstances(level, size, cantorDustCell, onProgress),
+    },
+  },
+  {
+    id: FractalType.KochTetrahedron,
+    name: 'コッホ四面体 (3D コッホ雪片)',
+    englishName: 'Koch Tetrahedron',
+    minLevel: 0,
+    maxLevel: 6,
+    defaultSize: 5.1,
+    side: 'front',
+    generate: ({ level, size }, onProgress) => generateKochTetrahedron(level, size, onProgress),
+    // Every level adds one vertex per edge and one apex per face: V(n + 1) = V(n) + 10 * 6^n.
+    // An upper bound from level 2, where grown tetrahedra start touching and share vertices.
+    countElements: ({ level }) => ({ vertices: 2 * Math.pow(6, level) + 2, faces: 4 * Math.pow(6, level) }),
+  },
+  {
+    id: FractalType.QuadraticKochSurface,
+    name: '二次コッホ曲面',
+    englishName: 'Quadratic Koch Surface',
+    minLevel: 0,
+    maxLevel: 5,
+    defaultSize: 5.1,
+    side: 'double', // Open surface, seen from both sides
+    generate: ({ level, size }, onProgress) => generateQuadraticKochSurface(level, size, onProgress),
+    // Upper bound from Euler's formula for a disc of 13^n squares with 4 * 3^n boundary edges
+    countElements: ({ level }) => ({ vertices: Math.pow(13, level) + 2 * Math.pow(3, level) + 1, faces: 2 * Math.pow(13, level) }),
+  },
+  {
+    id: FractalType.Mandelbulb,
+    name: 'マンデルバルブ',
+    englishName: 'Mandelbulb',
+    minLevel: 1,
+    maxLevel: 20,
+    levelLabel: '反復回数',
+    defaultLevel: 8,
+    defaultSize: 5.1,
+    side: 'double',
+    parameterSection: { kind: 'escapeTime', shapeParameter: 'power' },
+    generate: ({ level, size, escapeTime }, onProgress) => generateMandelbulb(level, size, escapeTime, onProgress),
+    countElements: ({ escapeTime }) => estimateIsosurfaceElements(escapeTime.resolution, 8),
+  },
+  {
+    id: FractalType.Mandelbox,
+    name: 'マンデルボックス',
+    englishName: 'Mandelbox',
+    minLevel: 1,
+    maxLevel: 30,
+    levelLabel: '反復回数',
+    defaultLevel: 12,
+    defaultSize: 5.1,
+    side: 'double',
+    parameterSection: { kind: 'escapeTime', shapeParameter: 'boxScale' },
+    generate: ({ level, size, escapeTime }, onProgress) => generateMandelbox(level, size, escapeTime, onProgress),
+    countElements: ({ escapeTime }) => estimateIsosurfaceElements(escapeTime.resolution, 20),
+  },
+  {
+    id: FractalType.Ifs,
+    name: 'IFS (カスタム)',
+    englishName: 'Custom IFS',
+    minLevel: 0,
+    maxLevel: 8,
+    defaultSize: 5.1,
+    side: 'double', // User maps may overlap or turn copies inside out
+    parameterSection: { kind: 'ifs' },
+    generate: ({ level, size, ifs }, onProgress) => generateIfsFractal(level, size, ifs, onProgress),
+    // Upper bound: assumes no corners are shared between copies
+    countElements: ({ level, ifs }) => {
+      const { corners, faces } = IFS_PRIMITIVES[ifs.primitive];
+      const copies = ifs.transforms.length > 0 ? Math.pow(ifs.transforms.length, level) : 1;
+      return { vertices: copies * corners.length, faces: copies * faces.length };
+    },
+  },
+];
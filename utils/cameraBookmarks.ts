@@ -0,0 +1,38 @@
+import type { CameraBookmark, CameraView, Vector3D } from '../types';
+import { readLocalStorage, writeLocalStorage } from './helpers';
+
+const BOOKMARKS_STORAGE_KEY = 'fractalExplorer.cameraBookmarks';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function isVector(value: unknown): value is Vector3D {
+  const v = value as Vector3D | null;
+  return typeof v === 'object' && v !== null && isFiniteNumber(v.x) && isFiniteNumber(v.y) && isFiniteNumber(v.z);
+}
+
+function isCameraView(value: unknown): value is CameraView {
+  const view = value as CameraView | null;
+  return typeof view === 'object' && view !== null
+    && (view.projection === 'perspective' || view.projection === 'orthographic')
+    && isVector(view.position)
+    && isVector(view.target)
+    && isFiniteNumber(view.orthographicHalfHeight) && view.orthographicHalfHeight >= 0;
+}
+
+// Malformed entries are skipped rather than discarding every bookmark.
+export function loadCameraBookmarks(): CameraBookmark[] {
+  const text = readLocalStorage(BOOKMARKS_STORAGE_KEY);
+  if (text === null) return [];
+  try {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error('Camera bookmarks must be an array.');
+    return data.filter((item): item is CameraBookmark => typeof item?.name === 'string' && isCameraView(item.view));
+  } catch (error) {
+    console.warn('Ignoring stored camera bookmarks:', error);
+    return [];
+  }
+}
+
+export function saveCameraBookmarks(bookmarks: CameraBookmark[]): void {
+  writeLocalStorage(BOOKMARKS_STORAGE_KEY, JSON.stringify(bookmarks));
+}
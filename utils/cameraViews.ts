@@ -0,0 +1,127 @@
+import type { CameraProjection, CameraView, StandardView, Vector3D } from '../types';
+
+const THREE = window.THREE;
+
+export type ViewCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+// Distance between the bounding sphere and the edge of the view when fitting
+const FIT_MARGIN = 1.2;
+
+const add = (a: Vector3D, b: Vector3D): Vector3D => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const subtract = (a: Vector3D, b: Vector3D): Vector3D => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const scale = (v: Vector3D, s: number): Vector3D => ({ x: v.x * s, y: v.y * s, z: v.z * s });
+const length = (v: Vector3D) => Math.hypot(v.x, v.y, v.z);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const lerpVector = (a: Vector3D, b: Vector3D, t: number): Vector3D => ({ x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t), z: lerp(a.z, b.z, t) });
+
+// Directions from the target towards the camera. OrbitControls clamps the camera just short of the
+// poles, so the top view sits slightly off the +Y axis, which also keeps -Z at the top of the screen.
+const STANDARD_VIEW_DIRECTIONS: Record<StandardView, Vector3D> = {
+  front: { x: 0, y: 0, z: 1 },
+  top: { x: 0, y: 1, z: 1e-4 },
+  side: { x: 1, y: 0, z: 0 },
+  isometric: { x: 1 / Math.sqrt(3), y: 1 / Math.sqrt(3), z: 1 / Math.sqrt(3) },
+};
+
+export function getStandardViewDirection(view: StandardView): Vector3D {
+  return STANDARD_VIEW_DIRECTIONS[view];
+}
+
+// Changes the aspect ratio and keeps the vertical extent of the view.
+export function setCameraAspect(camera: ViewCamera, aspect: number): void {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.aspect = aspect;
+  } else {
+    const halfHeight = (camera.top - camera.bottom) / 2;
+    camera.left = -halfHeight * aspect;
+    camera.right = halfHeight * aspect;
+  }
+  camera.updateProjectionMatrix();
+}
+
+export function captureCameraView(camera: ViewCamera, target: THREE.Vector3): CameraView {
+  const isPerspective = camera instanceof THREE.PerspectiveCamera;
+  return {
+    projection: isPerspective ? 'perspective' : 'orthographic',
+    position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+    target: { x: target.x, y: target.y, z: target.z },
+    orthographicHalfHeight: isPerspective ? 0 : (camera.top - camera.bottom) / 2 / camera.zoom,
+  };
+}
+
+// Moves the camera to the view; the camera must use the view's projection. Call controls.update() after.
+export function applyCameraView(camera: ViewCamera, controls: THREE.OrbitControls, view: CameraView, aspect: number): void {
+  camera.position.set(view.position.x, view.position.y, view.position.z);
+  controls.target.set(view.target.x, view.target.y, view.target.z);
+  camera.lookAt(controls.target);
+  if (!(camera instanceof THREE.PerspectiveCamera)) {
+    camera.top = view.orthographicHalfHeight;
+    camera.bottom = -view.orthographicHalfHeight;
+    camera.zoom = 1;
+    setCameraAspect(camera, aspect);
+  }
+}
+
+// The same view in the other projection, with the target appearing at the same size: the orthographic
+// half-height matches the perspective frustum's at the target distance.
+export function convertCameraView(view: CameraView, projection: CameraProjection, fov: number): CameraView {
+  if (view.projection === projection) return view;
+  const tanHalfFov = Math.tan((fov * Math.PI / 180) / 2);
+  const offset = subtract(view.position, view.target);
+  const distance = length(offset);
+  if (projection === 'orthographic') {
+    return { ...view, projection, orthographicHalfHeight: distance * tanHalfFov };
+  }
+  const perspectiveDistance = view.orthographicHalfHeight / tanHalfFov;
+  return {
+    ...view,
+    projection,
+    position: add(view.target, scale(offset, distance > 0 ? perspectiveDistance / distance : 0)),
+  };
+}
+
+// A view of the bounding sphere from `direction` (towards the camera) that fits it whole, for either projection.
+export function fitCameraView(
+  projection: CameraProjection,
+  center: Vector3D,
+  radius: number,
+  direction: Vector3D,
+  fov: number,
+  aspect: number
+): CameraView {
+  const halfFov = (fov * Math.PI / 180) / 2;
+  // The narrower of the vertical and horizontal field of view decides
+  const limitingHalfFov = Math.min(halfFov, Math.atan(Math.tan(halfFov) * aspect));
+  const distance = (radius / Math.sin(limitingHalfFov)) * FIT_MARGIN;
+  const directionLength = length(direction) || 1;
+  return {
+    projection,
+    position: add(center, scale(direction, distance / directionLength)),
+    target: center,
+    orthographicHalfHeight: (radius * FIT_MARGIN) / Math.min(1, aspect),
+  };
+}
+
+// Interpolates the target linearly and the camera offset by direction and distance, so the camera
+// swings around the target instead of cutting through it. Both views must share the projection.
+export function interpolateCameraView(from: CameraView, to: CameraView, t: number): CameraView {
+  const target = lerpVector(from.target, to.target, t);
+  const fromOffset = subtract(from.position, from.target);
+  const toOffset = subtract(to.position, to.target);
+  const fromDistance = length(fromOffset);
+  const toDistance = length(toOffset);
+  const direction = lerpVector(scale(fromOffset, 1 / (fromDistance || 1)), scale(toOffset, 1 / (toDistance || 1)), t);
+  const directionLength = length(direction);
+  // Exactly opposite directions have no midpoint; fall back to moving in a straight line
+  const position = directionLength > 1e-6
+    ? add(target, scale(direction, lerp(fromDistance, toDistance, t) / directionLength))
+    : lerpVector(from.position, to.position, t);
+  return {
+    projection: to.projection,
+    position,
+    target,
+    orthographicHalfHeight: lerp(from.orthographicHalfHeight, to.orthographicHalfHeight, t),
+  };
+}
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
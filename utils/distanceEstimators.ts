@@ -0,0 +1,61 @@
+// Distance estimators for the escape-time fractals: a lower bound on the distance from p to the set,
+// near zero or negative inside it.
+
+const MANDELBULB_BAILOUT = 2;
+
+// White/Nylander power-n Mandelbulb in spherical coordinates, with the usual 0.5 * log(r) * r / dr estimate.
+export function mandelbulbDistance(px: number, py: number, pz: number, power: number, iterations: number): number {
+  let x = px, y = py, z = pz;
+  let dr = 1;
+  let r = Math.sqrt(x * x + y * y + z * z);
+  for (let i = 0; i < iterations && r <= MANDELBULB_BAILOUT; i++) {
+    const theta = Math.acos(Math.max(-1, Math.min(1, z / (r || 1)))) * power;
+    const phi = Math.atan2(y, x) * power;
+    const rPower = Math.pow(r, power);
+    dr = Math.pow(r, power - 1) * power * dr + 1;
+    x = rPower * Math.sin(theta) * Math.cos(phi) + px;
+    y = rPower * Math.sin(theta) * Math.sin(phi) + py;
+    z = rPower * Math.cos(theta) + pz;
+    r = Math.sqrt(x * x + y * y + z * z);
+  }
+  return r === 0 ? -1 : (0.5 * Math.log(r) * r) / dr;
+}
+
+// Half-extent of the cube that contains the Mandelbulb for the supported powers (2-16).
+export const MANDELBULB_EXTENT = 1.5;
+
+const MANDELBOX_MIN_RADIUS2 = 0.25;
+const MANDELBOX_FIXED_RADIUS2 = 1;
+const MANDELBOX_MAX_EXTENT = 8;
+const MANDELBOX_BAILOUT2 = 1e4; // Escaped orbits stop early, so their estimate keeps growing with the distance
+
+// Tom Lowe's Mandelbox: box fold, sphere fold, then z = scale * z + p.
+export function mandelboxDistance(px: number, py: number, pz: number, scale: number, iterations: number): number {
+  let x = px, y = py, z = pz;
+  let dr = 1;
+  for (let i = 0; i < iterations; i++) {
+    x = Math.max(-1, Math.min(1, x)) * 2 - x;
+    y = Math.max(-1, Math.min(1, y)) * 2 - y;
+    z = Math.max(-1, Math.min(1, z)) * 2 - z;
+    const r2 = x * x + y * y + z * z;
+    if (r2 < MANDELBOX_MIN_RADIUS2) {
+      const factor = MANDELBOX_FIXED_RADIUS2 / MANDELBOX_MIN_RADIUS2;
+      x *= factor; y *= factor; z *= factor; dr *= factor;
+    } else if (r2 < MANDELBOX_FIXED_RADIUS2) {
+      const factor = MANDELBOX_FIXED_RADIUS2 / r2;
+      x *= factor; y *= factor; z *= factor; dr *= factor;
+    }
+    x = x * scale + px;
+    y = y * scale + py;
+    z = z * scale + pz;
+    dr = dr * Math.abs(scale) + 1;
+    if (x * x + y * y + z * z > MANDELBOX_BAILOUT2) break;
+  }
+  return Math.sqrt(x * x + y * y + z * z) / Math.abs(dr);
+}
+
+// For scale > 1 the Mandelbox fits in |x| <= 2 (scale + 1) / (scale - 1); for scale < -1 in |x| <= 2.
+// Scales in [-1, 1] give no bounded set, so they are sampled over the same [-2, 2] cube.
+export function getMandelboxExtent(scale: number): number {
+  return scale > 1 ? Math.min(MANDELBOX_MAX_EXTENT, (2 * (scale + 1)) / (scale - 1)) : 2;
+}
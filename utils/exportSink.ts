@@ -0,0 +1,66 @@
+import { downloadBlob } from './helpers';
+
+// Destination for exporters that emit their file piece by piece instead of as one string.
+export interface ExportSink {
+  write(chunk: string | BlobPart): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+export interface ExportSinkOptions {
+  fileName: string;
+  mimeType: string;
+  description: string; // Shown in the save dialog's file type list
+  extension: string; // Including the leading dot, e.g. '.obj'
+}
+
+// Streams straight to disk through the File System Access API.
+async function openFileSystemSink(options: ExportSinkOptions): Promise<ExportSink> {
+  const handle = await window.showSaveFilePicker!({
+    suggestedName: options.fileName,
+    types: [{ description: options.description, accept: { [options.mimeType]: [options.extension] } }],
+  });
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk as FileSystemWriteChunkType),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+}
+
+// Fallback: keeps the chunks as separate Blob parts, so no single giant string is ever built.
+function openBlobSink(options: ExportSinkOptions): ExportSink {
+  let parts: BlobPart[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(chunk);
+    },
+    close: async () => {
+      downloadBlob(new Blob(parts, { type: options.mimeType }), options.fileName);
+      parts = [];
+    },
+    abort: async () => {
+      parts = [];
+    },
+  };
+}
+
+// Must be called before the first await of a click handler: the save dialog needs a user gesture.
+// If the gesture has already expired the file is downloaded instead of failing with a SecurityError.
+// Rejects with an AbortError when the user dismisses the dialog.
+export async function openExportSink(options: ExportSinkOptions): Promise<ExportSink> {
+  if (typeof window.showSaveFilePicker !== 'function' || navigator.userActivation?.isActive === false) {
+    return openBlobSink(options);
+  }
+  try {
+    return await openFileSystemSink(options);
+  } catch (error: any) {
+    if (error?.name === 'SecurityError') return openBlobSink(options);
+    throw error;
+  }
+}
+
+// Lets the browser paint and handle input between chunks.
+export function yieldToBrowser(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
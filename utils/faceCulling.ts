@@ -0,0 +1,90 @@
+import type { FractalMesh } from '../types';
+
+function hashTriangle(a: number, b: number, c: number): number {
+  return (Math.imul(a, 73856093) ^ Math.imul(b, 19349663) ^ Math.imul(c, 83492791)) >>> 0;
+}
+
+// Drops the hidden faces where touching cells meet. Triangles over the same three (welded) vertices
+// cancel in opposing pairs; if an orientation is left over, one triangle is kept with it, so exact
+// duplicates collapse to a single face. Faces that only partly overlap are kept. Vertices no longer
+// referenced are removed, and face order and branch offsets are preserved.
+export function cullCoincidentFaces(mesh: FractalMesh): FractalMesh {
+  const { positions, indices, vertexDepths, branchFaceOffsets } = mesh;
+  const faceCount = indices.length / 3;
+  const sorted = new Uint32Array(indices.length);
+  const balance = new Int32Array(faceCount); // Net orientation of each triangle group, on its first face
+  const parity = new Int8Array(faceCount); // +1 if the face winds like its sorted vertices, -1 otherwise
+  const group = new Int32Array(faceCount); // First face with the same vertices
+
+  // Slots hold faceIndex + 1 so that 0 marks an empty slot; kept at most half full.
+  const slots = new Int32Array(1 << Math.ceil(Math.log2(Math.max(faceCount, 1) * 2)));
+  const slotMask = slots.length - 1;
+
+  for (let f = 0; f < faceCount; f++) {
+    let a = indices[f * 3], b = indices[f * 3 + 1], c = indices[f * 3 + 2];
+    // Each swap of the sorting network flips the winding
+    let sign = 1;
+    if (a > b) { [a, b] = [b, a]; sign = -sign; }
+    if (b > c) { [b, c] = [c, b]; sign = -sign; }
+    if (a > b) { [a, b] = [b, a]; sign = -sign; }
+    sorted[f * 3] = a;
+    sorted[f * 3 + 1] = b;
+    sorted[f * 3 + 2] = c;
+    parity[f] = sign;
+
+    let slot = hashTriangle(a, b, c) & slotMask;
+    while (slots[slot] !== 0) {
+      const s = (slots[slot] - 1) * 3;
+      if (sorted[s] === a && sorted[s + 1] === b && sorted[s + 2] === c) break;
+      slot = (slot + 1) & slotMask;
+    }
+    if (slots[slot] === 0) slots[slot] = f + 1;
+    group[f] = slots[slot] - 1;
+    balance[group[f]] += sign;
+  }
+
+  const vertexMap = new Int32Array(positions.length / 3).fill(-1);
+  const keptIndices = new Uint32Array(indices.length);
+  const keptBranchOffsets: number[] = [];
+  let keptFaces = 0;
+  let keptVertices = 0;
+  let branch = 0;
+  const mapVertex = (v: number) => {
+    if (vertexMap[v] < 0) vertexMap[v] = keptVertices++;
+    return vertexMap[v];
+  };
+
+  for (let f = 0; f < faceCount; f++) {
+    while (branch < branchFaceOffsets.length && branchFaceOffsets[branch] <= f) {
+      keptBranchOffsets.push(keptFaces);
+      branch++;
+    }
+    if (group[f] !== f || balance[f] === 0) continue;
+    const a = indices[f * 3];
+    // Keep the leftover orientation, which is this face's own unless opposing faces outnumber it
+    const [b, c] = Math.sign(balance[f]) === parity[f] ? [indices[f * 3 + 1], indices[f * 3 + 2]] : [indices[f * 3 + 2], indices[f * 3 + 1]];
+    keptIndices[keptFaces * 3] = mapVertex(a);
+    keptIndices[keptFaces * 3 + 1] = mapVertex(b);
+    keptIndices[keptFaces * 3 + 2] = mapVertex(c);
+    keptFaces++;
+  }
+  while (branch++ < branchFaceOffsets.length) keptBranchOffsets.push(keptFaces);
+
+  const keptPositions = new Float32Array(keptVertices * 3);
+  const keptDepths = new Uint8Array(keptVertices);
+  for (let v = 0; v < vertexMap.length; v++) {
+    const target = vertexMap[v];
+    if (target < 0) continue;
+    keptPositions[target * 3] = positions[v * 3];
+    keptPositions[target * 3 + 1] = positions[v * 3 + 1];
+    keptPositions[target * 3 + 2] = positions[v * 3 + 2];
+    keptDepths[target] = vertexDepths[v];
+  }
+
+  return {
+    positions: keptPositions,
+    indices: keptIndices.slice(0, keptFaces * 3),
+    vertexDepths: keptDepths,
+    branchFaceOffsets: keptBranchOffsets,
+  };
+}
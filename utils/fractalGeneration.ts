@@ -1,239 +1,599 @@
+import type { EscapeTimeSettings, FractalMesh, IfsPrimitive, IfsSettings } from '../types';
+import { createMeshBuilder, type MeshBuilder } from './meshBuilder';
+import { extractIsosurface } from './marchingCubes';
+import { getMandelboxExtent, mandelboxDistance, mandelbulbDistance, MANDELBULB_EXTENT } from './distanceEstimators';
+import { FLAKE_RATIOS, PLATONIC_SOLIDS, type PlatonicSolid } from './platonicSolids';
+import { ifsTransformToMatrix, linearDeterminant, multiplyAffine, scalingMatrix, type AffineMatrix } from './affine';
 
-import type { Face } from '../types';
-import { FractalType } from '../types'; // Import FractalType if needed for internal logic, otherwise remove
+// Receives the completed fraction (0-1) of a generation run.
+export type GenerationProgressCallback = (fraction: number) => void;
 
-// Type THREE explicitly from global scope, which should be populated by types.ts
-type ThreeVector3 = THREE.Vector3;
+// Tracks one generation run while the subdivide functions recurse.
+// Every cell registers its corners before recursing, so each vertex keeps the depth it first appeared at
+// (0 = corners of the initial solid); cell corners survive into the leaves for the built-in types.
+interface GenerationState {
+  builder: MeshBuilder;
+  leafCount: number;
+  totalLeaves: number;
+  reportedPercent: number;
+  onProgress?: GenerationProgressCallback;
+}
 
-interface GenerationOutput {
-  bufferVertices: number[];
-  bufferIndices: number[];
-  exportVertices: ThreeVector3[];
-  exportFaces: Face[];
+function createGenerationState(
+  totalLeaves: number,
+  facesPerLeaf: number,
+  onProgress?: GenerationProgressCallback
+): GenerationState {
+  return {
+    builder: createMeshBuilder({ faces: totalLeaves * facesPerLeaf }),
+    leafCount: 0,
+    totalLeaves,
+    reportedPercent: 0,
+    onProgress,
+  };
 }
 
-function addUniqueVertex(
-  vertex: ThreeVector3,
-  allBufferVertices: number[],
-  vertexMap: Map<string, number>,
-  allExportVertices: ThreeVector3[]
-): number {
-  const key = `${vertex.x.toFixed(5)},${vertex.y.toFixed(5)},${vertex.z.toFixed(5)}`;
-  if (vertexMap.has(key)) {
-    return vertexMap.get(key)!;
+// Called once per emitted leaf cell; reports progress in whole percent steps.
+function completeLeaf(state: GenerationState) {
+  state.leafCount++;
+  if (!state.onProgress) return;
+  const percent = Math.floor((state.leafCount / state.totalLeaves) * 100);
+  if (percent > state.reportedPercent) {
+    state.reportedPercent = percent;
+    state.onProgress(percent / 100);
   }
-  const newIndex = allExportVertices.length;
-  allBufferVertices.push(vertex.x, vertex.y, vertex.z);
-  allExportVertices.push(vertex.clone());
-  vertexMap.set(key, newIndex);
-  return newIndex;
 }
 
 function subdivideTetrahedron(
-  p1: ThreeVector3,
-  p2: ThreeVector3,
-  p3: ThreeVector3,
-  p4: ThreeVector3,
+  i1: number,
+  i2: number,
+  i3: number,
+  i4: number,
   level: number,
-  allBufferVertices: number[],
-  allBufferIndices: number[],
-  vertexMap: Map<string, number>,
-  allExportVertices: ThreeVector3[],
-  allExportFaces: Face[]
+  depth: number,
+  state: GenerationState
 ) {
-  if (level === 0) {
-    const idx1 = addUniqueVertex(p1, allBufferVertices, vertexMap, allExportVertices);
-    const idx2 = addUniqueVertex(p2, allBufferVertices, vertexMap, allExportVertices);
-    const idx3 = addUniqueVertex(p3, allBufferVertices, vertexMap, allExportVertices);
-    const idx4 = addUniqueVertex(p4, allBufferVertices, vertexMap, allExportVertices);
+  const { builder } = state;
 
+  if (level === 0) {
     // Ensure consistent winding order for normals (e.g., counter-clockwise from outside)
     // Face 1 (p1, p3, p2)
-    allBufferIndices.push(idx1, idx3, idx2);
-    allExportFaces.push({ v1: idx1, v2: idx3, v3: idx2 });
+    builder.addFace(i1, i3, i2);
     // Face 2 (p1, p2, p4)
-    allBufferIndices.push(idx1, idx2, idx4);
-    allExportFaces.push({ v1: idx1, v2: idx2, v3: idx4 });
+    builder.addFace(i1, i2, i4);
     // Face 3 (p1, p4, p3)
-    allBufferIndices.push(idx1, idx4, idx3);
-    allExportFaces.push({ v1: idx1, v2: idx4, v3: idx3 });
+    builder.addFace(i1, i4, i3);
     // Face 4 (p2, p3, p4) - check winding order if issues
-    allBufferIndices.push(idx2, idx3, idx4); // Original: (idx2, idx3, idx4)
-    allExportFaces.push({ v1: idx2, v2: idx3, v3: idx4 });
+    builder.addFace(i2, i3, i4); // Original: (idx2, idx3, idx4)
+    completeLeaf(state);
     return;
   }
 
-  const m12 = p1.clone().add(p2).multiplyScalar(0.5);
-  const m13 = p1.clone().add(p3).multiplyScalar(0.5);
-  const m14 = p1.clone().add(p4).multiplyScalar(0.5);
-  const m23 = p2.clone().add(p3).multiplyScalar(0.5);
-  const m24 = p2.clone().add(p4).multiplyScalar(0.5);
-  const m34 = p3.clone().add(p4).multiplyScalar(0.5);
+  // Corners are passed down as vertex indices; the edge midpoints are the new corners of the children
+  const m12 = builder.addMidpoint(i1, i2, depth + 1);
+  const m13 = builder.addMidpoint(i1, i3, depth + 1);
+  const m14 = builder.addMidpoint(i1, i4, depth + 1);
+  const m23 = builder.addMidpoint(i2, i3, depth + 1);
+  const m24 = builder.addMidpoint(i2, i4, depth + 1);
+  const m34 = builder.addMidpoint(i3, i4, depth + 1);
 
-  subdivideTetrahedron(p1, m12, m13, m14, level - 1, allBufferVertices, allBufferIndices, vertexMap, allExportVertices, allExportFaces);
-  subdivideTetrahedron(m12, p2, m23, m24, level - 1, allBufferVertices, allBufferIndices, vertexMap, allExportVertices, allExportFaces);
-  subdivideTetrahedron(m13, m23, p3, m34, level - 1, allBufferVertices, allBufferIndices, vertexMap, allExportVertices, allExportFaces);
-  subdivideTetrahedron(m14, m24, m34, p4, level - 1, allBufferVertices, allBufferIndices, vertexMap, allExportVertices, allExportFaces);
+  const children = [
+    [i1, m12, m13, m14],
+    [m12, i2, m23, m24],
+    [m13, m23, i3, m34],
+    [m14, m24, m34, i4],
+  ];
+  children.forEach(([c1, c2, c3, c4], i) => {
+    if (depth === 0) builder.beginBranch(i);
+    subdivideTetrahedron(c1, c2, c3, c4, level - 1, depth + 1, state);
+  });
 }
 
 
-export function generateSierpinskiTetrahedron(level: number, size: number): GenerationOutput {
-  const bufferVertices: number[] = [];
-  const bufferIndices: number[] = [];
-  const exportVertices: ThreeVector3[] = [];
-  const exportFaces: Face[] = [];
-  const vertexMap = new Map<string, number>();
+export function generateSierpinskiTetrahedron(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  const state = createGenerationState(Math.pow(4, level), 4, onProgress);
+  const { builder } = state;
 
   // Initial vertices of the tetrahedron
-  const p1 = new THREE.Vector3(size, size, size);
-  const p2 = new THREE.Vector3(size, -size, -size);
-  const p3 = new THREE.Vector3(-size, size, -size);
-  const p4 = new THREE.Vector3(-size, -size, size);
+  const i1 = builder.addVertex(size, size, size, 0);
+  const i2 = builder.addVertex(size, -size, -size, 0);
+  const i3 = builder.addVertex(-size, size, -size, 0);
+  const i4 = builder.addVertex(-size, -size, size, 0);
 
-  subdivideTetrahedron(p1, p2, p3, p4, level, bufferVertices, bufferIndices, vertexMap, exportVertices, exportFaces);
-  return { bufferVertices, bufferIndices, exportVertices, exportFaces };
+  subdivideTetrahedron(i1, i2, i3, i4, level, 0, state);
+  return builder.build();
+}
+
+// Corner offsets of a unit cube centred on the origin, in the order the face table below indexes them
+const CUBE_CORNERS = [
+  [-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1], // 0-3: front
+  [-1, -1, -1], [1, -1, -1], [1, 1, -1], [-1, 1, -1], // 4-7: back
+];
+
+const CUBE_FACES = [
+  [0, 1, 2], [0, 2, 3], // Front
+  [4, 7, 6], [4, 6, 5], // Back
+  [3, 2, 6], [3, 6, 7], // Top
+  [0, 4, 5], [0, 5, 1], // Bottom
+  [0, 3, 7], [0, 7, 4], // Left
+  [1, 5, 6], [1, 6, 2], // Right
+];
+
+// Decides which of the 27 cells of a 3x3x3 split survive; i, j, k are the cell offsets in -1..1.
+export type CubeCellFilter = (i: number, j: number, k: number) => boolean;
+
+// Menger sponge: drop the face centres and the body centre (cells with two or more zero offsets).
+export const mengerSpongeCell: CubeCellFilter = (i, j, k) => (i === 0 ? 1 : 0) + (j === 0 ? 1 : 0) + (k === 0 ? 1 : 0) < 2;
+
+// Mosely snowflake variant: keep the eight corner cells and the body centre.
+export const moselySnowflakeCell: CubeCellFilter = (i, j, k) => (i !== 0 && j !== 0 && k !== 0) || (i === 0 && j === 0 && k === 0);
+
+// 3D Cantor dust: keep only the eight corner cells.
+export const cantorDustCell: CubeCellFilter = (i, j, k) => i !== 0 && j !== 0 && k !== 0;
+
+export function countKeptCells(keep: CubeCellFilter): number {
+  let count = 0;
+  for (let i = -1; i <= 1; i++) {
+    for (let j = -1; j <= 1; j++) {
+      for (let k = -1; k <= 1; k++) {
+        if (keep(i, j, k)) count++;
+      }
+    }
+  }
+  return count;
+}
+
+function addCubeCorners(cx: number, cy: number, cz: number, halfSide: number, depth: number, state: GenerationState): number[] {
+  return CUBE_CORNERS.map(([x, y, z]) => state.builder.addVertex(cx + x * halfSide, cy + y * halfSide, cz + z * halfSide, depth));
+}
+
+function addCubeFaces(idx: number[], state: GenerationState) {
+  CUBE_FACES.forEach(([a, b, c]) => state.builder.addFace(idx[a], idx[b], idx[c]));
+  completeLeaf(state);
 }
 
 function subdivideCube(
-  center: ThreeVector3,
+  cx: number,
+  cy: number,
+  cz: number,
   sideLength: number,
   level: number,
-  allBufferVertices: number[],
-  allBufferIndices: number[],
-  vertexMap: Map<string, number>,
-  allExportVertices: ThreeVector3[],
-  allExportFaces: Face[]
+  depth: number,
+  keep: CubeCellFilter,
+  state: GenerationState
 ) {
+  const idx = addCubeCorners(cx, cy, cz, sideLength / 2, depth, state);
+
   if (level === 0) {
-    const halfSide = sideLength / 2;
-    const vertices = [
-      new THREE.Vector3(center.x - halfSide, center.y - halfSide, center.z + halfSide), // 0
-      new THREE.Vector3(center.x + halfSide, center.y - halfSide, center.z + halfSide), // 1
-      new THREE.Vector3(center.x + halfSide, center.y + halfSide, center.z + halfSide), // 2
-      new THREE.Vector3(center.x - halfSide, center.y + halfSide, center.z + halfSide), // 3
-      new THREE.Vector3(center.x - halfSide, center.y - halfSide, center.z - halfSide), // 4
-      new THREE.Vector3(center.x + halfSide, center.y - halfSide, center.z - halfSide), // 5
-      new THREE.Vector3(center.x + halfSide, center.y + halfSide, center.z - halfSide), // 6
-      new THREE.Vector3(center.x - halfSide, center.y + halfSide, center.z - halfSide)  // 7
-    ];
-    const idx = vertices.map(v => addUniqueVertex(v, allBufferVertices, vertexMap, allExportVertices));
-
-    const facesData = [
-      [idx[0], idx[1], idx[2]], [idx[0], idx[2], idx[3]], // Front
-      [idx[4], idx[7], idx[6]], [idx[4], idx[6], idx[5]], // Back
-      [idx[3], idx[2], idx[6]], [idx[3], idx[6], idx[7]], // Top
-      [idx[0], idx[4], idx[5]], [idx[0], idx[5], idx[1]], // Bottom
-      [idx[0], idx[3], idx[7]], [idx[0], idx[7], idx[4]], // Left
-      [idx[1], idx[5], idx[6]], [idx[1], idx[6], idx[2]], // Right
-    ];
-
-    facesData.forEach(faceIndices => {
-      allBufferIndices.push(...faceIndices);
-      allExportFaces.push({ v1: faceIndices[0], v2: faceIndices[1], v3: faceIndices[2] });
-    });
+    addCubeFaces(idx, state);
     return;
   }
 
   const newSideLength = sideLength / 3;
+  let branchIndex = 0;
   for (let i = -1; i <= 1; i++) {
     for (let j = -1; j <= 1; j++) {
       for (let k = -1; k <= 1; k++) {
-        let zeroCount = 0;
-        if (i === 0) zeroCount++;
-        if (j === 0) zeroCount++;
-        if (k === 0) zeroCount++;
-
-        if (zeroCount < 2) {
-          const offset = new THREE.Vector3(i * newSideLength, j * newSideLength, k * newSideLength);
-          const newCenter = center.clone().add(offset);
-          subdivideCube(newCenter, newSideLength, level - 1, allBufferVertices, allBufferIndices, vertexMap, allExportVertices, allExportFaces);
+        if (keep(i, j, k)) {
+          if (depth === 0) state.builder.beginBranch(branchIndex++);
+          subdivideCube(
+            cx + i * newSideLength,
+            cy + j * newSideLength,
+            cz + k * newSideLength,
+            newSideLength,
+            level - 1,
+            depth + 1,
+            keep,
+            state
+          );
         }
       }
     }
   }
 }
 
-export function generateMengerSponge(level: number, size: number): GenerationOutput {
-  const bufferVertices: number[] = [];
-  const bufferIndices: number[] = [];
-  const exportVertices: ThreeVector3[] = [];
-  const exportFaces: Face[] = [];
-  const vertexMap = new Map<string, number>();
-  
-  subdivideCube(new THREE.Vector3(0, 0, 0), size, level, bufferVertices, bufferIndices, vertexMap, exportVertices, exportFaces);
-  return { bufferVertices, bufferIndices, exportVertices, exportFaces };
+function generateCubeGridFractal(level: number, size: number, keep: CubeCellFilter, onProgress?: GenerationProgressCallback): FractalMesh {
+  const state = createGenerationState(Math.pow(countKeptCells(keep), level), CUBE_FACES.length, onProgress);
+
+  subdivideCube(0, 0, 0, size, level, 0, keep, state);
+  return state.builder.build();
+}
+
+export function generateMengerSponge(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  return generateCubeGridFractal(level, size, mengerSpongeCell, onProgress);
+}
+
+export function generateMoselySnowflake(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  return generateCubeGridFractal(level, size, moselySnowflakeCell, onProgress);
+}
+
+export function generateCantorDust(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  return generateCubeGridFractal(level, size, cantorDustCell, onProgress);
+}
+
+// Edge ratio of the Jerusalem cube: a corner cube of side k and an edge cube of side k^2 fill an edge
+// as k + k^2 + k = 1.
+export const JERUSALEM_CUBE_RATIO = Math.SQRT2 - 1;
+
+// Corner cubes recurse one level down and the smaller edge cubes two, so the leaf count
+// follows L(n) = 8 L(n - 1) + 12 L(n - 2), with edge cubes below level 0 emitted as solid cubes.
+export function countJerusalemCubeLeaves(level: number): number {
+  let previous = 1;
+  let current = 1;
+  for (let n = 1; n <= level; n++) {
+    [previous, current] = [current, 8 * current + 12 * previous];
+  }
+  return current;
+}
+
+function subdivideJerusalemCube(
+  cx: number,
+  cy: number,
+  cz: number,
+  sideLength: number,
+  level: number,
+  depth: number,
+  state: GenerationState
+) {
+  const halfSide = sideLength / 2;
+  const idx = addCubeCorners(cx, cy, cz, halfSide, depth, state);
+
+  if (level === 0) {
+    addCubeFaces(idx, state);
+    return;
+  }
+
+  const cornerSide = sideLength * JERUSALEM_CUBE_RATIO;
+  const edgeSide = cornerSide * JERUSALEM_CUBE_RATIO;
+  const cornerOffset = halfSide - cornerSide / 2;
+  const edgeOffset = halfSide - edgeSide / 2; // Edge cubes sit flush with the parent's edges
+  let branchIndex = 0;
+  const recurse = (x: number, y: number, z: number, side: number, childLevel: number) => {
+    if (depth === 0) state.builder.beginBranch(branchIndex++);
+    subdivideJerusalemCube(x, y, z, side, Math.max(0, childLevel), depth + 1, state);
+  };
+
+  for (const [i, j, k] of CUBE_CORNERS) {
+    recurse(cx + i * cornerOffset, cy + j * cornerOffset, cz + k * cornerOffset, cornerSide, level - 1);
+  }
+  for (const u of [-1, 1]) {
+    for (const v of [-1, 1]) {
+      recurse(cx, cy + u * edgeOffset, cz + v * edgeOffset, edgeSide, level - 2); // Edges along x
+      recurse(cx + u * edgeOffset, cy, cz + v * edgeOffset, edgeSide, level - 2); // Edges along y
+      recurse(cx + u * edgeOffset, cy + v * edgeOffset, cz, edgeSide, level - 2); // Edges along z
+    }
+  }
+}
+
+export function generateJerusalemCube(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  const state = createGenerationState(countJerusalemCubeLeaves(level), CUBE_FACES.length, onProgress);
+
+  subdivideJerusalemCube(0, 0, 0, size, level, 0, state);
+  return state.builder.build();
 }
 
+// Vertex directions of a unit octahedron; sub-octahedra are centred halfway along the same directions
+const OCTAHEDRON_DIRECTIONS = [
+  [0, 1, 0], // 0: top
+  [0, -1, 0], // 1: bottom
+  [1, 0, 0], // 2: +x
+  [-1, 0, 0], // 3: -x
+  [0, 0, 1], // 4: +z
+  [0, 0, -1], // 5: -z
+];
+
+const OCTAHEDRON_FACES = [
+  [0, 4, 2], [0, 2, 5], [0, 5, 3], [0, 3, 4], // Top pyramid
+  [1, 2, 4], [1, 5, 2], [1, 3, 5], [1, 4, 3], // Bottom pyramid
+];
 
 function subdivideOctahedron(
-  center: ThreeVector3,
+  cx: number,
+  cy: number,
+  cz: number,
   scale: number,
   level: number,
-  allBufferVertices: number[],
-  allBufferIndices: number[],
-  vertexMap: Map<string, number>,
-  allExportVertices: ThreeVector3[],
-  allExportFaces: Face[]
+  depth: number,
+  state: GenerationState
 ) {
+  const { builder } = state;
+  const idx = OCTAHEDRON_DIRECTIONS.map(([x, y, z]) => builder.addVertex(cx + x * scale, cy + y * scale, cz + z * scale, depth));
+
   if (level === 0) {
-    const vertices = [
-      new THREE.Vector3(center.x, center.y + scale, center.z), // 0: top
-      new THREE.Vector3(center.x, center.y - scale, center.z), // 1: bottom
-      new THREE.Vector3(center.x + scale, center.y, center.z), // 2: +x
-      new THREE.Vector3(center.x - scale, center.y, center.z), // 3: -x
-      new THREE.Vector3(center.x, center.y, center.z + scale), // 4: +z
-      new THREE.Vector3(center.x, center.y, center.z - scale)  // 5: -z
-    ];
-    const idx = vertices.map(v => addUniqueVertex(v, allBufferVertices, vertexMap, allExportVertices));
-
-    const facesData = [
-      [idx[0], idx[4], idx[2]], [idx[0], idx[2], idx[5]], [idx[0], idx[5], idx[3]], [idx[0], idx[3], idx[4]], // Top pyramid
-      [idx[1], idx[2], idx[4]], [idx[1], idx[5], idx[2]], [idx[1], idx[3], idx[5]], [idx[1], idx[4], idx[3]], // Bottom pyramid
-    ];
-    facesData.forEach(faceIndices => {
-      allBufferIndices.push(...faceIndices);
-      allExportFaces.push({ v1: faceIndices[0], v2: faceIndices[1], v3: faceIndices[2] });
-    });
+    OCTAHEDRON_FACES.forEach(([a, b, c]) => builder.addFace(idx[a], idx[b], idx[c]));
+    completeLeaf(state);
     return;
   }
 
   const newScale = scale * 0.5;
-  // This array holds the absolute centers for the new sub-octahedra.
-  // The variable name "parentVerticesForCenters" from the original code was a bit misleading.
-  // Let's call them "newSubOctahedraCenters" conceptually.
-  const newSubOctahedraCenters = [
-    new THREE.Vector3(center.x, center.y + newScale, center.z),
-    new THREE.Vector3(center.x, center.y - newScale, center.z),
-    new THREE.Vector3(center.x + newScale, center.y, center.z),
-    new THREE.Vector3(center.x - newScale, center.y, center.z),
-    new THREE.Vector3(center.x, center.y, center.z + newScale),
-    new THREE.Vector3(center.x, center.y, center.z - newScale)
-  ];
+  OCTAHEDRON_DIRECTIONS.forEach(([x, y, z], i) => {
+    if (depth === 0) builder.beginBranch(i);
+    subdivideOctahedron(cx + x * newScale, cy + y * newScale, cz + z * newScale, newScale, level - 1, depth + 1, state);
+  });
+}
+
+export function generateSierpinskiOctahedron(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  const state = createGenerationState(Math.pow(6, level), OCTAHEDRON_FACES.length, onProgress);
 
-  for (let i = 0; i < newSubOctahedraCenters.length; i++) {
-    const newCenterForSub = newSubOctahedraCenters[i]; // This IS the correct absolute center for the sub-octahedron.
-    subdivideOctahedron(
-      newCenterForSub, // Use this directly. The previous pv.add(center) was the bug.
-      newScale,
-      level - 1,
-      allBufferVertices,
-      allBufferIndices,
-      vertexMap,
-      allExportVertices,
-      allExportFaces
-    );
-  }
-}
-
-export function generateSierpinskiOctahedron(level: number, size: number): GenerationOutput {
-  const bufferVertices: number[] = [];
-  const bufferIndices: number[] = [];
-  const exportVertices: ThreeVector3[] = [];
-  const exportFaces: Face[] = [];
-  const vertexMap = new Map<string, number>();
-  
   // For Sierpinski Octahedron, the initial 'scale' can be considered 'size'.
   // The 'center' is (0,0,0).
-  subdivideOctahedron(new THREE.Vector3(0, 0, 0), size, level, bufferVertices, bufferIndices, vertexMap, exportVertices, exportFaces);
-  return { bufferVertices, bufferIndices, exportVertices, exportFaces };
+  subdivideOctahedron(0, 0, 0, size, level, 0, state);
+  return state.builder.build();
+}
+
+// n-flake: one copy of the solid, scaled by the solid's flake ratio, at each vertex of the parent.
+// Each copy keeps the parent's vertex as one of its own, so corners are registered at every depth.
+function subdivideFlake(
+  cx: number,
+  cy: number,
+  cz: number,
+  radius: number,
+  solid: PlatonicSolid,
+  level: number,
+  depth: number,
+  state: GenerationState
+) {
+  const { builder } = state;
+  const { vertices, faces } = PLATONIC_SOLIDS[solid];
+  const idx = vertices.map(([x, y, z]) => builder.addVertex(cx + x * radius, cy + y * radius, cz + z * radius, depth));
+
+  if (level === 0) {
+    faces.forEach(([a, b, c]) => builder.addFace(idx[a], idx[b], idx[c]));
+    completeLeaf(state);
+    return;
+  }
+
+  const ratio = FLAKE_RATIOS[solid];
+  const offset = radius * (1 - ratio);
+  vertices.forEach(([x, y, z], i) => {
+    if (depth === 0) builder.beginBranch(i);
+    subdivideFlake(cx + x * offset, cy + y * offset, cz + z * offset, radius * ratio, solid, level - 1, depth + 1, state);
+  });
+}
+
+// Polyhedral n-flake of any Platonic solid with circumradius `size`.
+export function generatePolyhedralFlake(
+  solid: PlatonicSolid,
+  level: number,
+  size: number,
+  onProgress?: GenerationProgressCallback
+): FractalMesh {
+  const { vertices, faces } = PLATONIC_SOLIDS[solid];
+  const state = createGenerationState(Math.pow(vertices.length, level), faces.length, onProgress);
+
+  subdivideFlake(0, 0, 0, size, solid, level, 0, state);
+  return state.builder.build();
+}
+
+interface IfsPrimitiveMesh {
+  corners: number[][];
+  faces: number[][];
+}
+
+// Unit primitives spanning [-1, 1] on each axis; the tetrahedron matches generateSierpinskiTetrahedron.
+export const IFS_PRIMITIVES: Record<IfsPrimitive, IfsPrimitiveMesh> = {
+  tetrahedron: {
+    corners: [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]],
+    faces: [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]],
+  },
+  cube: { corners: CUBE_CORNERS, faces: CUBE_FACES },
+  octahedron: { corners: OCTAHEDRON_DIRECTIONS, faces: OCTAHEDRON_FACES },
+};
+
+// Own keys only: `in` would also accept inherited names such as 'constructor' from a link or file.
+export function isIfsPrimitive(value: unknown): value is IfsPrimitive {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IFS_PRIMITIVES, value);
+}
+
+function subdivideIfs(
+  matrix: AffineMatrix,
+  maps: AffineMatrix[],
+  primitive: IfsPrimitiveMesh,
+  level: number,
+  depth: number,
+  state: GenerationState
+) {
+  const { builder } = state;
+
+  if (level === 0) {
+    // IFS copies need not share corners with their parent, so only leaf corners are registered
+    const idx = primitive.corners.map(([x, y, z]) => builder.addVertex(
+      matrix[0] * x + matrix[1] * y + matrix[2] * z + matrix[3],
+      matrix[4] * x + matrix[5] * y + matrix[6] * z + matrix[7],
+      matrix[8] * x + matrix[9] * y + matrix[10] * z + matrix[11],
+      depth
+    ));
+    // Mirroring maps flip the winding; swap two corners to keep faces oriented like the primitive
+    const mirrored = linearDeterminant(matrix) < 0;
+    primitive.faces.forEach(([a, b, c]) => (mirrored ? builder.addFace(idx[a], idx[c], idx[b]) : builder.addFace(idx[a], idx[b], idx[c])));
+    completeLeaf(state);
+    return;
+  }
+
+  maps.forEach((map, i) => {
+    if (depth === 0) builder.beginBranch(i);
+    subdivideIfs(multiplyAffine(matrix, map), maps, primitive, level - 1, depth + 1, state);
+  });
+}
+
+export function generateIfsFractal(level: number, size: number, ifs: IfsSettings, onProgress?: GenerationProgressCallback): FractalMesh {
+  const primitive = IFS_PRIMITIVES[ifs.primitive];
+  const maps = ifs.transforms.map(ifsTransformToMatrix);
+  // Without any maps there is nothing to recurse into, so only the primitive itself is emitted
+  const effectiveLevel = maps.length > 0 ? level : 0;
+  const state = createGenerationState(Math.pow(maps.length, effectiveLevel), primitive.faces.length, onProgress);
+
+  subdivideIfs(scalingMatrix(size), maps, primitive, effectiveLevel, 0, state);
+  return state.builder.build();
+}
+
+// Koch tetrahedron: each triangle (wound counter-clockwise seen from outside) splits at its edge midpoints;
+// the three corner triangles stay and a regular tetrahedron grows outward on the middle one.
+function subdivideKochTriangle(a: number, b: number, c: number, level: number, depth: number, state: GenerationState) {
+  const { builder } = state;
+
+  if (level === 0) {
+    builder.addFace(a, b, c);
+    completeLeaf(state);
+    return;
+  }
+
+  const mab = builder.addMidpoint(a, b, depth + 1);
+  const mbc = builder.addMidpoint(b, c, depth + 1);
+  const mca = builder.addMidpoint(c, a, depth + 1);
+  const [ax, ay, az] = builder.getPosition(mab);
+  const [bx, by, bz] = builder.getPosition(mbc);
+  const [cx, cy, cz] = builder.getPosition(mca);
+  const ux = bx - ax, uy = by - ay, uz = bz - az;
+  const vx = cx - ax, vy = cy - ay, vz = cz - az;
+  const nx = uy * vz - uz * vy;
+  const ny = uz * vx - ux * vz;
+  const nz = ux * vy - uy * vx;
+  // Height of a regular tetrahedron over the middle triangle: edge * sqrt(2/3)
+  const height = Math.sqrt(ux * ux + uy * uy + uz * uz) * Math.sqrt(2 / 3);
+  const scale = height / Math.sqrt(nx * nx + ny * ny + nz * nz);
+  const apex = builder.addVertex(
+    (ax + bx + cx) / 3 + nx * scale,
+    (ay + by + cy) / 3 + ny * scale,
+    (az + bz + cz) / 3 + nz * scale,
+    depth + 1
+  );
+
+  const children = [
+    [a, mab, mca], [mab, b, mbc], [mca, mbc, c], // Corner triangles
+    [mab, mbc, apex], [mbc, mca, apex], [mca, mab, apex], // Sides of the grown tetrahedron
+  ];
+  children.forEach(([p, q, r]) => subdivideKochTriangle(p, q, r, level - 1, depth + 1, state));
+}
+
+export function generateKochTetrahedron(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  const state = createGenerationState(4 * Math.pow(6, level), 1, onProgress);
+  const { builder } = state;
+
+  // Same initial tetrahedron as generateSierpinskiTetrahedron, with every face wound outward
+  const p1 = builder.addVertex(size, size, size, 0);
+  const p2 = builder.addVertex(size, -size, -size, 0);
+  const p3 = builder.addVertex(-size, size, -size, 0);
+  const p4 = builder.addVertex(-size, -size, size, 0);
+
+  const faces = [[p1, p2, p3], [p1, p4, p2], [p1, p3, p4], [p2, p4, p3]];
+  faces.forEach(([a, b, c], i) => {
+    builder.beginBranch(i);
+    subdivideKochTriangle(a, b, c, level, 0, state);
+  });
+  return builder.build();
+}
+
+// Quadratic Koch surface (type 1): each square (corners a, b, c, d counter-clockwise seen from the
+// growing side) splits into a 3x3 grid whose middle square is pushed out into a cube, giving 13 squares.
+function subdivideKochQuad(a: number, b: number, c: number, d: number, level: number, depth: number, state: GenerationState) {
+  const { builder } = state;
+
+  if (level === 0) {
+    builder.addFace(a, b, c);
+    builder.addFace(a, c, d);
+    completeLeaf(state);
+    return;
+  }
+
+  const [ox, oy, oz] = builder.getPosition(a);
+  const [bx, by, bz] = builder.getPosition(b);
+  const [dx, dy, dz] = builder.getPosition(d);
+  const ux = (bx - ox) / 3, uy = (by - oy) / 3, uz = (bz - oz) / 3;
+  const vx = (dx - ox) / 3, vy = (dy - oy) / 3, vz = (dz - oz) / 3;
+  const nx = uy * vz - uz * vy;
+  const ny = uz * vx - ux * vz;
+  const nz = ux * vy - uy * vx;
+  // The raised cube is as tall as a grid cell is wide
+  const scale = Math.sqrt(ux * ux + uy * uy + uz * uz) / Math.sqrt(nx * nx + ny * ny + nz * nz);
+
+  // grid[i][j] = a + i * u + j * v; the four corners weld back onto a, b, c and d
+  const grid: number[][] = [];
+  for (let i = 0; i <= 3; i++) {
+    grid.push([]);
+    for (let j = 0; j <= 3; j++) {
+      grid[i].push(builder.addVertex(ox + ux * i + vx * j, oy + uy * i + vy * j, oz + uz * i + vz * j, depth + 1));
+    }
+  }
+  const top = (i: number, j: number) => {
+    const [x, y, z] = builder.getPosition(grid[i][j]);
+    return builder.addVertex(x + nx * scale, y + ny * scale, z + nz * scale, depth + 1);
+  };
+  const t11 = top(1, 1), t21 = top(2, 1), t22 = top(2, 2), t12 = top(1, 2);
+
+  const children: number[][] = [];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      if (i === 1 && j === 1) continue;
+      children.push([grid[i][j], grid[i + 1][j], grid[i + 1][j + 1], grid[i][j + 1]]);
+    }
+  }
+  children.push(
+    [grid[1][1], grid[2][1], t21, t11], // Walls of the raised cube, facing away from it
+    [grid[2][1], grid[2][2], t22, t21],
+    [grid[2][2], grid[1][2], t12, t22],
+    [grid[1][2], grid[1][1], t11, t12],
+    [t11, t21, t22, t12] // Top
+  );
+  children.forEach(([p, q, r, s], i) => {
+    if (depth === 0) builder.beginBranch(i);
+    subdivideKochQuad(p, q, r, s, level - 1, depth + 1, state);
+  });
+}
+
+export function generateQuadraticKochSurface(level: number, size: number, onProgress?: GenerationProgressCallback): FractalMesh {
+  const state = createGenerationState(Math.pow(13, level), 2, onProgress);
+  const { builder } = state;
+
+  // A 2*size square in the XZ plane growing towards +Y; the raised cubes add at most size in height,
+  // so the base sits at -size/2 to centre the result.
+  const base = -size / 2;
+  const a = builder.addVertex(-size, base, size, 0);
+  const b = builder.addVertex(size, base, size, 0);
+  const c = builder.addVertex(size, base, -size, 0);
+  const d = builder.addVertex(-size, base, -size, 0);
+
+  subdivideKochQuad(a, b, c, d, level, 0, state);
+  return builder.build();
+}
+
+// Escape-time fractals: the distance estimate minus half a cell is meshed, so the surface sits
+// just outside the set and thin features stay connected at the grid resolution.
+function generateEscapeTimeSurface(
+  distance: (x: number, y: number, z: number) => number,
+  extent: number,
+  resolution: number,
+  size: number,
+  onProgress?: GenerationProgressCallback
+): FractalMesh {
+  const state = createGenerationState(resolution, 4 * resolution, onProgress);
+  const threshold = extent / resolution;
+
+  extractIsosurface((x, y, z) => distance(x, y, z) - threshold, state.builder, {
+    resolution,
+    extent,
+    outputScale: size / extent,
+    onSlice: () => completeLeaf(state),
+  });
+  return state.builder.build();
+}
+
+export function generateMandelbulb(iterations: number, size: number, settings: EscapeTimeSettings, onProgress?: GenerationProgressCallback): FractalMesh {
+  return generateEscapeTimeSurface(
+    (x, y, z) => mandelbulbDistance(x, y, z, settings.power, iterations),
+    MANDELBULB_EXTENT,
+    settings.resolution,
+    size,
+    onProgress
+  );
+}
+
+export function generateMandelbox(iterations: number, size: number, settings: EscapeTimeSettings, onProgress?: GenerationProgressCallback): FractalMesh {
+  return generateEscapeTimeSurface(
+    (x, y, z) => mandelboxDistance(x, y, z, settings.boxScale, iterations),
+    getMandelboxExtent(settings.boxScale),
+    settings.resolution,
+    size,
+    onProgress
+  );
 }
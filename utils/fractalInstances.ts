@@ -0,0 +1,200 @@
+import type { FractalInstances } from '../types';
+import {
+  countJerusalemCubeLeaves,
+  countKeptCells,
+  IFS_PRIMITIVES,
+  JERUSALEM_CUBE_RATIO,
+  type CubeCellFilter,
+  type GenerationProgressCallback,
+} from './fractalGeneration';
+import { FLAKE_RATIOS, PLATONIC_SOLIDS, type PlatonicSolid } from './platonicSolids';
+
+// Leaf-only counterparts of the subdividing generators in fractalGeneration.ts: they walk the same
+// recursion but record one centre and scale per leaf instead of building the mesh.
+
+interface InstanceState {
+  transforms: Float32Array;
+  count: number;
+  rootLevel: number;
+  branchInstanceOffsets: number[];
+  reportedPercent: number;
+  onProgress?: GenerationProgressCallback;
+}
+
+function createInstanceState(totalInstances: number, level: number, onProgress?: GenerationProgressCallback): InstanceState {
+  return { transforms: new Float32Array(totalInstances * 4), count: 0, rootLevel: level, branchInstanceOffsets: [0], reportedPercent: 0, onProgress };
+}
+
+// Called before collecting each child; marks where the leaves of a top-level sub-cell begin, like MeshBuilder.beginBranch.
+function beginBranch(state: InstanceState, level: number) {
+  if (level === state.rootLevel && state.count > 0) state.branchInstanceOffsets.push(state.count);
+}
+
+// Records one leaf; reports progress in whole percent steps like completeLeaf.
+function addInstance(state: InstanceState, cx: number, cy: number, cz: number, scale: number) {
+  const offset = state.count++ * 4;
+  state.transforms[offset] = cx;
+  state.transforms[offset + 1] = cy;
+  state.transforms[offset + 2] = cz;
+  state.transforms[offset + 3] = scale;
+  if (!state.onProgress) return;
+  const percent = Math.floor((state.count * 400) / state.transforms.length);
+  if (percent > state.reportedPercent) {
+    state.reportedPercent = percent;
+    state.onProgress(percent / 100);
+  }
+}
+
+function buildInstances(corners: number[][], faces: number[][], state: InstanceState): FractalInstances {
+  return {
+    primitivePositions: new Float32Array(corners.flat()),
+    primitiveIndices: new Uint32Array(faces.flat()),
+    transforms: state.transforms.slice(0, state.count * 4),
+    branchInstanceOffsets: state.branchInstanceOffsets,
+  };
+}
+
+// Each child is the parent halved towards one of its corners.
+function collectTetrahedra(cx: number, cy: number, cz: number, scale: number, level: number, state: InstanceState) {
+  if (level === 0) {
+    addInstance(state, cx, cy, cz, scale);
+    return;
+  }
+  const half = scale / 2;
+  for (const [x, y, z] of IFS_PRIMITIVES.tetrahedron.corners) {
+    beginBranch(state, level);
+    collectTetrahedra(cx + x * half, cy + y * half, cz + z * half, half, level - 1, state);
+  }
+}
+
+export function generateSierpinskiTetrahedronInstances(level: number, size: number, onProgress?: GenerationProgressCallback): FractalInstances {
+  const state = createInstanceState(Math.pow(4, level), level, onProgress);
+  collectTetrahedra(0, 0, 0, size, level, state);
+  const { corners, faces } = IFS_PRIMITIVES.tetrahedron;
+  return buildInstances(corners, faces, state);
+}
+
+function collectCubeGridCells(cx: number, cy: number, cz: number, sideLength: number, level: number, keep: CubeCellFilter, state: InstanceState) {
+  if (level === 0) {
+    addInstance(state, cx, cy, cz, sideLength / 2);
+    return;
+  }
+  const newSideLength = sideLength / 3;
+  for (let i = -1; i <= 1; i++) {
+    for (let j = -1; j <= 1; j++) {
+      for (let k = -1; k <= 1; k++) {
+        if (keep(i, j, k)) {
+          beginBranch(state, level);
+          collectCubeGridCells(cx + i * newSideLength, cy + j * newSideLength, cz + k * newSideLength, newSideLength, level - 1, keep, state);
+        }
+      }
+    }
+  }
+}
+
+// Menger sponge, Mosely snowflake and Cantor dust.
+export function generateCubeGridInstances(level: number, size: number, keep: CubeCellFilter, onProgress?: GenerationProgressCallback): FractalInstances {
+  const state = createInstanceState(Math.pow(countKeptCells(keep), level), level, onProgress);
+  collectCubeGridCells(0, 0, 0, size, level, keep, state);
+  const { corners, faces } = IFS_PRIMITIVES.cube;
+  return buildInstances(corners, faces, state);
+}
+
+function collectJerusalemCubes(cx: number, cy: number, cz: number, sideLength: number, level: number, state: InstanceState) {
+  const halfSide = sideLength / 2;
+  if (level === 0) {
+    addInstance(state, cx, cy, cz, halfSide);
+    return;
+  }
+  const cornerSide = sideLength * JERUSALEM_CUBE_RATIO;
+  const edgeSide = cornerSide * JERUSALEM_CUBE_RATIO;
+  const cornerOffset = halfSide - cornerSide / 2;
+  const edgeOffset = halfSide - edgeSide / 2;
+  for (const [i, j, k] of IFS_PRIMITIVES.cube.corners) {
+    beginBranch(state, level);
+    collectJerusalemCubes(cx + i * cornerOffset, cy + j * cornerOffset, cz + k * cornerOffset, cornerSide, level - 1, state);
+  }
+  const edgeLevel = Math.max(0, level - 2);
+  for (const u of [-1, 1]) {
+    for (const v of [-1, 1]) {
+      beginBranch(state, level);
+      collectJerusalemCubes(cx, cy + u * edgeOffset, cz + v * edgeOffset, edgeSide, edgeLevel, state);
+      beginBranch(state, level);
+      collectJerusalemCubes(cx + u * edgeOffset, cy, cz + v * edgeOffset, edgeSide, edgeLevel, state);
+      beginBranch(state, level);
+      collectJerusalemCubes(cx + u * edgeOffset, cy + v * edgeOffset, cz, edgeSide, edgeLevel, state);
+    }
+  }
+}
+
+export function generateJerusalemCubeInstances(level: number, size: number, onProgress?: GenerationProgressCallback): FractalInstances {
+  const state = createInstanceState(countJerusalemCubeLeaves(level), level, onProgress);
+  collectJerusalemCubes(0, 0, 0, size, level, state);
+  const { corners, faces } = IFS_PRIMITIVES.cube;
+  return buildInstances(corners, faces, state);
+}
+
+function collectOctahedra(cx: number, cy: number, cz: number, scale: number, level: number, state: InstanceState) {
+  if (level === 0) {
+    addInstance(state, cx, cy, cz, scale);
+    return;
+  }
+  const newScale = scale / 2;
+  for (const [x, y, z] of IFS_PRIMITIVES.octahedron.corners) {
+    beginBranch(state, level);
+    collectOctahedra(cx + x * newScale, cy + y * newScale, cz + z * newScale, newScale, level - 1, state);
+  }
+}
+
+export function generateSierpinskiOctahedronInstances(level: number, size: number, onProgress?: GenerationProgressCallback): FractalInstances {
+  const state = createInstanceState(Math.pow(6, level), level, onProgress);
+  collectOctahedra(0, 0, 0, size, level, state);
+  const { corners, faces } = IFS_PRIMITIVES.octahedron;
+  return buildInstances(corners, faces, state);
+}
+
+function collectFlakeCopies(cx: number, cy: number, cz: number, radius: number, solid: PlatonicSolid, level: number, state: InstanceState) {
+  if (level === 0) {
+    addInstance(state, cx, cy, cz, radius);
+    return;
+  }
+  const ratio = FLAKE_RATIOS[solid];
+  const offset = radius * (1 - ratio);
+  for (const [x, y, z] of PLATONIC_SOLIDS[solid].vertices) {
+    beginBranch(state, level);
+    collectFlakeCopies(cx + x * offset, cy + y * offset, cz + z * offset, radius * ratio, solid, level - 1, state);
+  }
+}
+
+export function generatePolyhedralFlakeInstances(
+  solid: PlatonicSolid,
+  level: number,
+  size: number,
+  onProgress?: GenerationProgressCallback
+): FractalInstances {
+  const { vertices, faces } = PLATONIC_SOLIDS[solid];
+  const state = createInstanceState(Math.pow(vertices.length, level), level, onProgress);
+  collectFlakeCopies(0, 0, 0, size, solid, level, state);
+  return buildInstances(vertices, faces, state);
+}
+
+// Bounding sphere of the box that holds every scaled primitive, for framing the camera.
+export function getInstancesBoundingSphere({ primitivePositions, transforms }: FractalInstances): { center: [number, number, number]; radius: number } {
+  const primitiveMin = [Infinity, Infinity, Infinity];
+  const primitiveMax = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < primitivePositions.length; i++) {
+    primitiveMin[i % 3] = Math.min(primitiveMin[i % 3], primitivePositions[i]);
+    primitiveMax[i % 3] = Math.max(primitiveMax[i % 3], primitivePositions[i]);
+  }
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < transforms.length; i += 4) {
+    const scale = transforms[i + 3];
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], transforms[i + axis] + primitiveMin[axis] * scale);
+      max[axis] = Math.max(max[axis], transforms[i + axis] + primitiveMax[axis] * scale);
+    }
+  }
+  const center: [number, number, number] = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  return { center, radius: Math.hypot(max[0] - center[0], max[1] - center[1], max[2] - center[2]) };
+}
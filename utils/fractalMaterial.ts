@@ -0,0 +1,94 @@
+import type { FractalDefinition, MaterialSettings } from '../types';
+
+const THREE = window.THREE;
+
+const WIREFRAME_OVERLAY_NAME = 'wireframeOverlay';
+const WIREFRAME_OVERLAY_COLOR = '#000000';
+const WIREFRAME_OVERLAY_OPACITY = 0.35;
+
+function resolveSide(settings: MaterialSettings, definition: FractalDefinition): 'front' | 'back' | 'double' {
+  return settings.side === 'auto' ? definition.side : settings.side;
+}
+
+// Exporters only distinguish one- and two-sided surfaces; back faces alone are written as two-sided.
+export function isDoubleSidedMaterial(settings: MaterialSettings, definition: FractalDefinition): boolean {
+  return resolveSide(settings, definition) !== 'front';
+}
+
+// Updates the material in place. Toggling flatShading or transparency changes the shader, which needs a recompile.
+export function applyMaterialSettings(material: THREE.MeshStandardMaterial, settings: MaterialSettings, definition: FractalDefinition): void {
+  const transparent = settings.opacity < 1;
+  if (material.flatShading !== settings.flatShading || material.transparent !== transparent) {
+    material.needsUpdate = true;
+  }
+  const side = resolveSide(settings, definition);
+  material.metalness = settings.metalness;
+  material.roughness = settings.roughness;
+  material.flatShading = settings.flatShading;
+  material.transparent = transparent;
+  material.opacity = settings.opacity;
+  material.emissive.set(settings.emissive);
+  material.side = side === 'double' ? THREE.DoubleSide : side === 'back' ? THREE.BackSide : THREE.FrontSide;
+  // Pushes the surface back in depth so the overlay's edges are not hidden by it
+  material.polygonOffset = settings.wireframe;
+  material.polygonOffsetFactor = 1;
+  material.polygonOffsetUnits = 1;
+}
+
+export function createFractalMaterial(color: string, settings: MaterialSettings, definition: FractalDefinition): THREE.MeshStandardMaterial {
+  const material = new THREE.MeshStandardMaterial({ color: new THREE.Color(color) });
+  applyMaterialSettings(material, settings, definition);
+  return material;
+}
+
+// Where the surface color comes from: the material's own color, the geometry's 'color' attribute or the
+// InstancedMesh's instance colors. Vertex and instance colors are shown as they are rather than tinted.
+export type SurfaceColorSource = 'material' | 'vertex' | 'instance';
+
+export function applySurfaceColor(material: THREE.MeshStandardMaterial, color: string, source: SurfaceColorSource): void {
+  const vertexColors = source === 'vertex';
+  if (material.vertexColors !== vertexColors) material.needsUpdate = true;
+  material.vertexColors = vertexColors;
+  material.color.set(source === 'material' ? color : '#ffffff');
+}
+
+// Writes per-instance colors (r, g, b bytes), or white when `colors` is null. Once created the attribute
+// is kept, so later switches between coloring modes need no shader recompile and leak no GPU buffers.
+export function setInstanceColors(mesh: THREE.InstancedMesh, colors: Uint8Array | null): void {
+  if (!colors && !mesh.instanceColor) return;
+  if (!mesh.instanceColor) {
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(mesh.count * 3), 3);
+    (mesh.material as THREE.Material).needsUpdate = true;
+  }
+  const { array } = mesh.instanceColor;
+  for (let i = 0; i < array.length; i++) array[i] = colors ? colors[i] / 255 : 1;
+  mesh.instanceColor.needsUpdate = true;
+}
+
+// Adds or removes the wireframe overlay: a child of the mesh that shares its geometry (and, for
+// instanced meshes, its instance matrices), so it follows the mesh without copying any buffers.
+export function syncWireframeOverlay(mesh: THREE.Mesh, enabled: boolean): void {
+  const existing = mesh.getObjectByName(WIREFRAME_OVERLAY_NAME) as THREE.Mesh | undefined;
+  if (enabled && !existing) {
+    const material = new THREE.MeshBasicMaterial({
+      color: WIREFRAME_OVERLAY_COLOR,
+      wireframe: true,
+      transparent: true,
+      opacity: WIREFRAME_OVERLAY_OPACITY,
+    });
+    let overlay: THREE.Mesh;
+    if (mesh instanceof THREE.InstancedMesh) {
+      const instancedOverlay = new THREE.InstancedMesh(mesh.geometry, material, mesh.count);
+      instancedOverlay.instanceMatrix = mesh.instanceMatrix;
+      instancedOverlay.frustumCulled = false; // As for the mesh, the geometry's bounds cover one leaf
+      overlay = instancedOverlay;
+    } else {
+      overlay = new THREE.Mesh(mesh.geometry, material);
+    }
+    overlay.name = WIREFRAME_OVERLAY_NAME;
+    mesh.add(overlay);
+  } else if (!enabled && existing) {
+    mesh.remove(existing);
+    (existing.material as THREE.Material).dispose(); // The geometry belongs to the mesh
+  }
+}
@@ -0,0 +1,89 @@
+// Point-membership tests for the built-in fractals, used to voxelize them for .vox export.
+
+import type { CubeCellFilter } from './fractalGeneration';
+import { FLAKE_RATIOS, PLATONIC_SOLIDS, type PlatonicSolid } from './platonicSolids';
+
+// A cell of the 3^level grid survives when the filter keeps it at every base-3 digit
+// (digits 0, 1, 2 correspond to the filter's offsets -1, 0, 1).
+export function isInCubeGridCell(x: number, y: number, z: number, level: number, keep: CubeCellFilter): boolean {
+  for (let l = 0, dx = x, dy = y, dz = z; l < level; l++, dx = Math.floor(dx / 3), dy = Math.floor(dy / 3), dz = Math.floor(dz / 3)) {
+    if (!keep((dx % 3) - 1, (dy % 3) - 1, (dz % 3) - 1)) return false;
+  }
+  return true;
+}
+
+// Barycentric coordinates of p in the root tetrahedron used by generateSierpinskiTetrahedron
+// (vertices (1,1,1), (1,-1,-1), (-1,1,-1), (-1,-1,1) in units of size).
+function tetrahedronBarycentric(x: number, y: number, z: number): [number, number, number, number] {
+  return [
+    (1 + x + y + z) / 4,
+    (1 + x - y - z) / 4,
+    (1 - x + y - z) / 4,
+    (1 - x - y + z) / 4,
+  ];
+}
+
+// Each sub-tetrahedron i holds the points with barycentric weight >= 1/2 on corner i;
+// rescaling the weights maps the point into that child's own barycentric frame.
+export function isInSierpinskiTetrahedron(x: number, y: number, z: number, level: number): boolean {
+  const weights = tetrahedronBarycentric(x, y, z);
+  if (weights.some(w => w < 0)) return false;
+  for (let l = 0; l < level; l++) {
+    const corner = weights.findIndex(w => w >= 0.5);
+    if (corner < 0) return false;
+    for (let i = 0; i < 4; i++) {
+      weights[i] = i === corner ? 2 * weights[i] - 1 : 2 * weights[i];
+    }
+  }
+  return true;
+}
+
+// Mirrors subdivideOctahedron: six half-scale copies centred halfway towards each vertex.
+export function isInSierpinskiOctahedron(x: number, y: number, z: number, scale: number, level: number): boolean {
+  if (Math.abs(x) + Math.abs(y) + Math.abs(z) > scale) return false;
+  if (level === 0) return true;
+  const half = scale * 0.5;
+  const childCenters: [number, number, number][] = [
+    [0, half, 0], [0, -half, 0], [half, 0, 0], [-half, 0, 0], [0, 0, half], [0, 0, -half],
+  ];
+  return childCenters.some(([cx, cy, cz]) => isInSierpinskiOctahedron(x - cx, y - cy, z - cz, half, level - 1));
+}
+
+// Mirrors subdivideJerusalemCube for a cube centred at the origin with half-side `half`.
+export function isInJerusalemCube(x: number, y: number, z: number, half: number, level: number, ratio: number): boolean {
+  if (Math.abs(x) > half || Math.abs(y) > half || Math.abs(z) > half) return false;
+  if (level === 0) return true;
+  const cornerHalf = half * ratio;
+  const edgeHalf = cornerHalf * ratio;
+  const cornerOffset = half - cornerHalf;
+  const edgeOffset = half - edgeHalf;
+  // Every point lies in at most one child, so only the child whose box contains it is tested
+  if (Math.abs(x) >= cornerOffset - cornerHalf && Math.abs(y) >= cornerOffset - cornerHalf && Math.abs(z) >= cornerOffset - cornerHalf) {
+    return isInJerusalemCube(Math.abs(x) - cornerOffset, Math.abs(y) - cornerOffset, Math.abs(z) - cornerOffset, cornerHalf, level - 1, ratio);
+  }
+  const edgeLevel = Math.max(0, level - 2);
+  const coords = [Math.abs(x), Math.abs(y), Math.abs(z)];
+  for (let axis = 0; axis < 3; axis++) {
+    const [u, v] = coords.filter((_, i) => i !== axis);
+    if (Math.abs(coords[axis]) <= edgeHalf && u >= edgeOffset - edgeHalf && v >= edgeOffset - edgeHalf) {
+      const point = coords.map((c, i) => (i === axis ? c : c - edgeOffset));
+      return isInJerusalemCube(point[0], point[1], point[2], edgeHalf, edgeLevel, ratio);
+    }
+  }
+  return false;
+}
+
+// Mirrors subdivideFlake for a unit-circumradius flake centred at the origin.
+export function isInPolyhedralFlake(x: number, y: number, z: number, solid: PlatonicSolid, level: number): boolean {
+  const { vertices, planes } = PLATONIC_SOLIDS[solid];
+  if (planes.some(([nx, ny, nz, d]) => nx * x + ny * y + nz * z > d)) return false;
+  if (level === 0) return true;
+  const ratio = FLAKE_RATIOS[solid];
+  return vertices.some(([vx, vy, vz]) => {
+    const px = (x - vx * (1 - ratio)) / ratio;
+    const py = (y - vy * (1 - ratio)) / ratio;
+    const pz = (z - vz * (1 - ratio)) / ratio;
+    // Copies only touch, so the circumsphere check rejects nearly all of them before recursing
+    return px * px + py * py + pz * pz <= 1 && isInPolyhedralFlake(px, py, pz, solid, level - 1);
+  });
+}
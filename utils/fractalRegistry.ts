@@ -0,0 +1,31 @@
+import type { FractalDefinition, FractalTypeId } from '../types';
+
+// Registered fractal types, in the order they appear in the type selector.
+// The main thread and the generation worker each hold their own copy, filled by fractalSetup.ts.
+const definitions = new Map<FractalTypeId, FractalDefinition>();
+
+export function registerFractal(definition: FractalDefinition): void {
+  if (definitions.has(definition.id)) {
+    throw new Error(`Fractal type "${definition.id}" is already registered.`);
+  }
+  if (definition.minLevel > definition.maxLevel) {
+    throw new Error(`Fractal type "${definition.id}" has an empty level range.`);
+  }
+  definitions.set(definition.id, definition);
+}
+
+export function getFractalDefinition(id: FractalTypeId): FractalDefinition {
+  const definition = definitions.get(id);
+  if (!definition) {
+    throw new Error(`Unknown fractal type "${id}".`);
+  }
+  return definition;
+}
+
+export function getFractalDefinitions(): FractalDefinition[] {
+  return [...definitions.values()];
+}
+
+export function clampFractalLevel(definition: FractalDefinition, level: number): number {
+  return Math.min(definition.maxLevel, Math.max(definition.minLevel, level));
+}
@@ -0,0 +1,7 @@
+import { registerFractal } from './fractalRegistry';
+import { BUILTIN_FRACTALS } from './builtinFractals';
+
+// Registers every available fractal type. Imported for its side effects by index.tsx and by the
+// generation worker, which runs its own copy of the registry; register third-party generators here
+// so that both sides see them.
+BUILTIN_FRACTALS.forEach(registerFractal);
@@ -0,0 +1,58 @@
+import type { FractalGenerationParams, FractalInstances, FractalMesh, FractalTypeId, VoxelGrid } from '../types';
+import { cullCoincidentFaces } from './faceCulling';
+import { getFractalDefinition } from './fractalRegistry';
+import { rasterizeFractal } from './voxelRasterizer';
+import './fractalSetup';
+
+// Messages exchanged with fractalWorkerClient.ts
+
+export interface GenerateRequest extends FractalGenerationParams {
+  id: number;
+  output: 'mesh' | 'instances'; // 'instances' requires a type with instancing
+}
+
+// Occupancy grid for the .vox export; the type must define a voxelizer.
+export interface VoxelizeRequest {
+  id: number;
+  output: 'voxels';
+  type: FractalTypeId;
+  level: number;
+  resolution: number;
+}
+
+export type FractalWorkerRequest = GenerateRequest | VoxelizeRequest;
+
+export type GenerationWorkerMessage =
+  | { kind: 'progress'; id: number; progress: number }
+  | { kind: 'result'; id: number; mesh: FractalMesh }
+  | { kind: 'instances'; id: number; instances: FractalInstances }
+  | { kind: 'voxels'; id: number; grid: VoxelGrid }
+  | { kind: 'error'; id: number; message: string };
+
+function post(message: GenerationWorkerMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.addEventListener('message', (event: MessageEvent<FractalWorkerRequest>) => {
+  const request = event.data;
+  try {
+    const onProgress = (progress: number) => post({ kind: 'progress', id: request.id, progress });
+    if (request.output === 'voxels') {
+      const grid = rasterizeFractal(request.type, request.level, request.resolution, onProgress);
+      post({ kind: 'voxels', id: request.id, grid }, [grid.voxels.buffer]);
+      return;
+    }
+    const { generate, instancing } = getFractalDefinition(request.type);
+    if (request.output === 'instances') {
+      if (!instancing) throw new Error(`Fractal type "${request.type}" has no instanced preview`);
+      const instances = instancing.generate(request, onProgress);
+      post({ kind: 'instances', id: request.id, instances }, [instances.primitivePositions.buffer, instances.primitiveIndices.buffer, instances.transforms.buffer]);
+      return;
+    }
+    const cells: FractalMesh = generate(request, onProgress);
+    const mesh = request.surface === 'outer' ? cullCoincidentFaces(cells) : cells;
+    post({ kind: 'result', id: request.id, mesh }, [mesh.positions.buffer, mesh.indices.buffer, mesh.vertexDepths.buffer]);
+  } catch (error: any) {
+    post({ kind: 'error', id: request.id, message: error?.message || String(error) });
+  }
+});
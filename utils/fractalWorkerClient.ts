@@ -0,0 +1,107 @@
+import type { FractalGenerationParams, FractalInstances, FractalMesh, FractalTypeId, VoxelGrid } from '../types';
+import type { FractalWorkerRequest, GenerateRequest, GenerationWorkerMessage, VoxelizeRequest } from './fractalWorker';
+
+type WorkerResult = FractalMesh | FractalInstances | VoxelGrid;
+
+interface PendingGeneration {
+  id: number;
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface FractalWorkerClient {
+  generate(params: FractalGenerationParams, onProgress?: (fraction: number) => void): Promise<FractalMesh>;
+  // Leaf transforms for the instanced preview; the type must define instancing.
+  generateInstances(params: FractalGenerationParams, onProgress?: (fraction: number) => void): Promise<FractalInstances>;
+  // Occupancy grid for the .vox export; the type must define a voxelizer. Aborting the signal cancels it.
+  voxelize(
+    params: { type: FractalTypeId; level: number; resolution: number },
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<VoxelGrid>;
+  cancel(): void; // Rejects the in-flight generation, if any, with an AbortError
+  dispose(): void;
+}
+
+// Runs the generators and voxelizers off the main thread. Only one request is in flight at a time:
+// starting a new one (or calling cancel) terminates the worker, so a stale result can never arrive.
+export function createFractalWorkerClient(): FractalWorkerClient {
+  let worker: Worker | null = null;
+  let pending: PendingGeneration | null = null;
+  let nextId = 1;
+
+  const fail = (message: string) => {
+    const failed = pending;
+    if (!failed) return;
+    pending = null;
+    failed.reject(new Error(message));
+  };
+
+  const handleMessage = (message: GenerationWorkerMessage) => {
+    const current = pending;
+    if (!current || current.id !== message.id) return; // Result of a cancelled request
+    if (message.kind === 'progress') {
+      current.onProgress?.(message.progress);
+    } else if (message.kind === 'result' || message.kind === 'instances' || message.kind === 'voxels') {
+      pending = null;
+      current.resolve(message.kind === 'result' ? message.mesh : message.kind === 'instances' ? message.instances : message.grid);
+    } else {
+      fail(message.message);
+    }
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./fractalWorker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<GenerationWorkerMessage>) => handleMessage(event.data));
+      worker.addEventListener('error', (event: ErrorEvent) => fail(event.message || 'Worker error'));
+    }
+    return worker;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    const { reject } = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    reject(new DOMException('Fractal generation was cancelled', 'AbortError'));
+  };
+
+  const start = <T extends WorkerResult>(
+    request: Omit<GenerateRequest, 'id'> | Omit<VoxelizeRequest, 'id'>,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    cancel();
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const id = nextId++;
+    const abort = () => {
+      if (pending?.id === id) cancel();
+    };
+    signal?.addEventListener('abort', abort);
+    return new Promise<T>((resolve, reject) => {
+      pending = { id, resolve: result => resolve(result as T), reject, onProgress };
+      getWorker().postMessage({ ...request, id } as FractalWorkerRequest);
+    }).finally(() => signal?.removeEventListener('abort', abort));
+  };
+
+  const startGeneration = <T extends FractalMesh | FractalInstances>(
+    { type, level, size, ifs, escapeTime, surface }: FractalGenerationParams,
+    output: GenerateRequest['output'],
+    onProgress?: (fraction: number) => void
+  ): Promise<T> => start<T>({ type, level, size, ifs, escapeTime, surface, output }, onProgress);
+
+  return {
+    generate: (params, onProgress) => startGeneration<FractalMesh>(params, 'mesh', onProgress),
+    generateInstances: (params, onProgress) => startGeneration<FractalInstances>(params, 'instances', onProgress),
+    voxelize: ({ type, level, resolution }, onProgress, signal) => start<VoxelGrid>({ type, level, resolution, output: 'voxels' }, onProgress, signal),
+    cancel,
+    dispose() {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
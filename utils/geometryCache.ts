@@ -0,0 +1,63 @@
+import type { FractalGenerationParams, FractalInstances, FractalMesh } from '../types';
+
+// A generation result: the full mesh, or the leaf transforms of an instanced preview.
+export interface CachedGeometry {
+  mesh: FractalMesh | null;
+  instances: FractalInstances | null;
+}
+
+export interface GeometryCache {
+  get(key: string): CachedGeometry | undefined;
+  // Evicts the least recently used entries until the cache fits maxBytes; larger results are not cached.
+  set(key: string, geometry: CachedGeometry, maxBytes: number): void;
+}
+
+// Only the generation inputs are part of the key, so colour edits reuse the cached geometry.
+export function getGeometryCacheKey(
+  { type, level, size, ifs, escapeTime, surface }: FractalGenerationParams,
+  output: 'mesh' | 'instances'
+): string {
+  return JSON.stringify([output, type, level, size, ifs, escapeTime, surface]);
+}
+
+function getGeometryBytes({ mesh, instances }: CachedGeometry): number {
+  const meshBytes = mesh ? mesh.positions.byteLength + mesh.indices.byteLength + mesh.vertexDepths.byteLength : 0;
+  const instanceBytes = instances
+    ? instances.primitivePositions.byteLength + instances.primitiveIndices.byteLength + instances.transforms.byteLength
+    : 0;
+  return meshBytes + instanceBytes;
+}
+
+// Keeps recent generation results so that stepping back through the history does not regenerate them.
+export function createGeometryCache(maxEntries: number): GeometryCache {
+  // Map iteration order doubles as the recency order, oldest first
+  const entries = new Map<string, { geometry: CachedGeometry; bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.geometry;
+    },
+    set(key, geometry, maxBytes) {
+      remove(key);
+      const bytes = getGeometryBytes(geometry);
+      if (bytes > maxBytes) return;
+      while (entries.size >= maxEntries || totalBytes + bytes > maxBytes) {
+        remove(entries.keys().next().value!);
+      }
+      entries.set(key, { geometry, bytes });
+      totalBytes += bytes;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import type { ExportMaterial, FractalMesh, FractalTypeId, GltfFormat } from '../types';
+import { getFractalDefinition } from './fractalRegistry';
+import { buildExportFileName, downloadBlob, hexToRgb } from './helpers';
+import { computeVertexNormals } from './normals';
+
+// glTF constants (see the glTF 2.0 specification, section 5)
+const COMPONENT_FLOAT = 5126;
+const COMPONENT_UNSIGNED_INT = 5125;
+const TARGET_ARRAY_BUFFER = 34962;
+const TARGET_ELEMENT_ARRAY_BUFFER = 34963;
+const MODE_TRIANGLES = 4;
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_VERSION = 2;
+const GLB_CHUNK_JSON = 0x4e4f534a; // 'JSON'
+const GLB_CHUNK_BIN = 0x004e4942; // 'BIN\0'
+
+function srgbToLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+// glTF color factors are linear, while the color picker yields sRGB hex.
+function hexToLinearRgb(hex: string): [number, number, number] {
+  const [r, g, b] = hexToRgb(hex);
+  return [srgbToLinear(r / 255), srgbToLinear(g / 255), srgbToLinear(b / 255)];
+}
+
+function padTo4(byteLength: number): number {
+  return (byteLength + 3) & ~3;
+}
+
+function computeBounds(positions: Float32Array): { min: number[]; max: number[] } {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = positions[i + axis];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+  return { min, max };
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000; // Stay well below the argument limit of String.fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+interface GltfDocument {
+  json: Record<string, unknown>;
+  binary: ArrayBuffer;
+}
+
+function buildGltfDocument(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  mesh: FractalMesh,
+  material: ExportMaterial,
+  embedBuffer: boolean,
+  colors?: ArrayLike<number>
+): GltfDocument {
+  const { positions, indices } = mesh;
+  const normals = computeVertexNormals(positions, indices);
+  const vertexCount = positions.length / 3;
+  const linearColors = colors ? Float32Array.from(colors, c => srgbToLinear(c / 255)) : null;
+
+  // Layout: [positions][normals][indices][colors], each view 4-byte aligned.
+  const positionsOffset = 0;
+  const normalsOffset = padTo4(positionsOffset + positions.byteLength);
+  const indicesOffset = padTo4(normalsOffset + normals.byteLength);
+  const colorsOffset = padTo4(indicesOffset + indices.byteLength);
+  const binary = new ArrayBuffer(padTo4(colorsOffset + (linearColors?.byteLength ?? 0)));
+  new Float32Array(binary, positionsOffset, positions.length).set(positions);
+  new Float32Array(binary, normalsOffset, normals.length).set(normals);
+  new Uint32Array(binary, indicesOffset, indices.length).set(indices);
+  if (linearColors) new Float32Array(binary, colorsOffset, linearColors.length).set(linearColors);
+
+  const { min, max } = computeBounds(positions);
+  // A self-contained .gltf embeds the binary buffer as a base64 data URI; GLB stores it in its BIN chunk.
+  const buffer = embedBuffer
+    ? { byteLength: binary.byteLength, uri: `data:application/octet-stream;base64,${arrayBufferToBase64(binary)}` }
+    : { byteLength: binary.byteLength };
+  const name = `${fractalType}_level${level}`;
+
+  const json = {
+    asset: {
+      version: '2.0',
+      generator: '3D Fractal Explorer (React Edition)',
+      extras: { fractalType, fractalName: getFractalDefinition(fractalType).englishName, level, size },
+    },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name }],
+    meshes: [{
+      name,
+      primitives: [{
+        attributes: linearColors ? { POSITION: 0, NORMAL: 1, COLOR_0: 3 } : { POSITION: 0, NORMAL: 1 },
+        indices: 2,
+        material: 0,
+        mode: MODE_TRIANGLES,
+      }],
+    }],
+    materials: [{
+      name: `${fractalType}_material`,
+      pbrMetallicRoughness: {
+        baseColorFactor: [...hexToLinearRgb(material.color), material.opacity],
+        metallicFactor: material.metalness,
+        roughnessFactor: material.roughness,
+      },
+      emissiveFactor: hexToLinearRgb(material.emissive),
+      alphaMode: material.opacity < 1 ? 'BLEND' : 'OPAQUE',
+      doubleSided: material.doubleSided,
+    }],
+    accessors: [
+      { bufferView: 0, componentType: COMPONENT_FLOAT, count: vertexCount, type: 'VEC3', min, max },
+      { bufferView: 1, componentType: COMPONENT_FLOAT, count: vertexCount, type: 'VEC3' },
+      { bufferView: 2, componentType: COMPONENT_UNSIGNED_INT, count: indices.length, type: 'SCALAR' },
+      ...(linearColors ? [{ bufferView: 3, componentType: COMPONENT_FLOAT, count: vertexCount, type: 'VEC3' }] : []),
+    ],
+    bufferViews: [
+      { buffer: 0, byteOffset: positionsOffset, byteLength: positions.byteLength, target: TARGET_ARRAY_BUFFER },
+      { buffer: 0, byteOffset: normalsOffset, byteLength: normals.byteLength, target: TARGET_ARRAY_BUFFER },
+      { buffer: 0, byteOffset: indicesOffset, byteLength: indices.byteLength, target: TARGET_ELEMENT_ARRAY_BUFFER },
+      ...(linearColors ? [{ buffer: 0, byteOffset: colorsOffset, byteLength: linearColors.byteLength, target: TARGET_ARRAY_BUFFER }] : []),
+    ],
+    buffers: [buffer],
+  };
+
+  return { json, binary };
+}
+
+function packGlb(gltf: GltfDocument): ArrayBuffer {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(gltf.json));
+  const jsonChunkLength = padTo4(jsonBytes.length);
+  const binChunkLength = padTo4(gltf.binary.byteLength);
+  const totalLength = 12 + 8 + jsonChunkLength + 8 + binChunkLength;
+
+  const glb = new ArrayBuffer(totalLength);
+  const view = new DataView(glb);
+  const bytes = new Uint8Array(glb);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, GLB_VERSION, true);
+  view.setUint32(8, totalLength, true);
+
+  view.setUint32(12, jsonChunkLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+  bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonChunkLength); // JSON chunk is padded with spaces
+
+  const binHeaderOffset = 20 + jsonChunkLength;
+  view.setUint32(binHeaderOffset, binChunkLength, true);
+  view.setUint32(binHeaderOffset + 4, GLB_CHUNK_BIN, true);
+  bytes.set(new Uint8Array(gltf.binary), binHeaderOffset + 8);
+
+  return glb;
+}
+
+export function exportToGltfFile(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  mesh: FractalMesh,
+  material: ExportMaterial,
+  format: GltfFormat,
+  colors?: ArrayLike<number> // r, g, b per vertex in 0-255 (sRGB), written as COLOR_0 and multiplied with the base color
+): void {
+  if (!mesh.positions.length || !mesh.indices.length) {
+    console.error("No data to export.");
+    return;
+  }
+
+  const gltf = buildGltfDocument(fractalType, level, size, mesh, material, format === 'gltf', colors);
+  if (format === 'glb') {
+    const blob = new Blob([packGlb(gltf)], { type: 'model/gltf-binary' });
+    downloadBlob(blob, buildExportFileName(fractalType, level, size, 'glb'));
+  } else {
+    const blob = new Blob([JSON.stringify(gltf.json)], { type: 'model/gltf+json' });
+    downloadBlob(blob, buildExportFileName(fractalType, level, size, 'gltf'));
+  }
+}
@@ -1,3 +1,4 @@
+import type { FractalTypeId } from '../types';
 
 export function debounce<F extends (...args: any[]) => any>(func: F, delay: number): (...args: Parameters<F>) => void {
   let timeout: ReturnType<typeof setTimeout>;
@@ -10,3 +11,47 @@ export function debounce<F extends (...args: any[]) => any>(func: F, delay: numb
       }, delay);
   };
 }
+
+// True for the AbortError rejections of cancelled exports, save dialogs and generations.
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function buildExportFileName(fractalType: FractalTypeId, level: number, size: number, extension: string): string {
+  return `${fractalType}_level${level}_size${size.toFixed(1)}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+// '#RRGGBB' -> [r, g, b] in 0-255
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// localStorage can be unavailable (private mode, disabled storage) or full; what it holds then lives
+// for the session only.
+export function readLocalStorage(key: string): string | null {
+  try {
+    return window.localStorage.getItem(key);
+  } catch (error) {
+    console.warn(`Could not read ${key} from localStorage:`, error);
+    return null;
+  }
+}
+
+export function writeLocalStorage(key: string, value: string): void {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn(`Could not write ${key} to localStorage:`, error);
+  }
+}
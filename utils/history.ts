@@ -0,0 +1,65 @@
+import type { FractalParameters, LightSettings, MaterialSettings } from '../types';
+import type { PresetSnapshot } from './presets';
+
+// Undo/redo stacks of fractal, light and material settings. `past` ends with the snapshot the next undo
+// restores, `future` with the one the next redo restores.
+export interface SettingsHistory {
+  past: PresetSnapshot[];
+  future: PresetSnapshot[];
+}
+
+export const EMPTY_HISTORY: SettingsHistory = { past: [], future: [] };
+
+// Names the fields that differ between two snapshots, e.g. 'fractalParams.level'; empty when none do.
+// Consecutive edits with the same key can be coalesced into one entry.
+export function getChangeKey(previous: PresetSnapshot, next: PresetSnapshot): string {
+  const changed: string[] = [];
+  for (const key of Object.keys(next.fractalParams) as (keyof FractalParameters)[]) {
+    if (previous.fractalParams[key] !== next.fractalParams[key]) changed.push(`fractalParams.${key}`);
+  }
+  for (const key of Object.keys(next.lightSettings) as (keyof LightSettings)[]) {
+    if (previous.lightSettings[key] !== next.lightSettings[key]) changed.push(`lightSettings.${key}`);
+  }
+  for (const key of Object.keys(next.materialSettings) as (keyof MaterialSettings)[]) {
+    if (previous.materialSettings[key] !== next.materialSettings[key]) changed.push(`materialSettings.${key}`);
+  }
+  return changed.join(',');
+}
+
+// Records the snapshot an edit replaced. A coalesced edit extends the newest entry instead, so undo
+// skips straight back to the state before the whole run of edits. Either way the redo stack is cleared.
+export function recordHistory(history: SettingsHistory, previous: PresetSnapshot, coalesce: boolean, limit: number): SettingsHistory {
+  if (coalesce && history.past.length > 0) return { past: history.past, future: [] };
+  return { past: [...history.past, previous].slice(-limit), future: [] };
+}
+
+export function undoHistory(history: SettingsHistory, current: PresetSnapshot): { history: SettingsHistory; snapshot: PresetSnapshot } | null {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, current] },
+    snapshot: history.past[history.past.length - 1],
+  };
+}
+
+export function redoHistory(history: SettingsHistory, current: PresetSnapshot): { history: SettingsHistory; snapshot: PresetSnapshot } | null {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(0, -1) },
+    snapshot: history.future[history.future.length - 1],
+  };
+}
+
+// Drops the newest entry if it restores exactly `snapshot`, for an edit that was rolled back
+// and should leave no trace in the history.
+export function discardHistoryEntry(history: SettingsHistory, snapshot: PresetSnapshot): SettingsHistory {
+  const latest = history.past[history.past.length - 1];
+  if (
+    !latest ||
+    latest.fractalParams !== snapshot.fractalParams ||
+    latest.lightSettings !== snapshot.lightSettings ||
+    latest.materialSettings !== snapshot.materialSettings
+  ) {
+    return history;
+  }
+  return { ...history, past: history.past.slice(0, -1) };
+}
@@ -0,0 +1,105 @@
+import type { FractalTypeId, ImageRenderOptions } from '../types';
+import { buildExportFileName, downloadBlob } from './helpers';
+import { setCameraAspect, type ViewCamera } from './cameraViews';
+
+const THREE = window.THREE;
+
+// Largest output side; browsers refuse to allocate or encode bigger canvases.
+export const IMAGE_MAX_DIMENSION = 16384;
+// Side of each offscreen render, in rendered (supersampled) pixels. A multiple of every
+// supersampling factor, so tiles map to whole output pixels.
+const TILE_SIZE = 1024;
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The browser could not encode an image of this size.'))), 'image/png');
+  });
+}
+
+export interface ImageRenderer {
+  // Renders the scene as seen by `camera` into a PNG. The camera is cloned, not modified.
+  render(camera: ViewCamera, options: ImageRenderOptions, onProgress?: (fraction: number) => void, signal?: AbortSignal): Promise<Blob>;
+  dispose(): void;
+}
+
+// Renders a scene at arbitrary resolutions without touching the visible canvas. The view is split into
+// tiles with setViewOffset, each drawn by an offscreen renderer and scaled down by the supersampling
+// factor into the output canvas. Tiles are spread over animation frames, so the scene must stay still
+// until a render settles. One renderer can serve many renders, e.g. the frames of a turntable.
+export function createImageRenderer(scene: THREE.Scene): ImageRenderer {
+  const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
+  renderer.setPixelRatio(1);
+  renderer.setClearColor(0x000000, 0);
+  renderer.shadowMap.enabled = true;
+  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+  return {
+    async render(camera, { width, height, supersampling, transparentBackground }, onProgress, signal) {
+      if (width > IMAGE_MAX_DIMENSION || height > IMAGE_MAX_DIMENSION) {
+        throw new Error(`Image sides are limited to ${IMAGE_MAX_DIMENSION} pixels.`);
+      }
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      const context = output.getContext('2d');
+      if (!context) throw new Error('Could not allocate the output canvas.');
+      context.imageSmoothingEnabled = true;
+      context.imageSmoothingQuality = 'high';
+
+      const fullWidth = width * supersampling;
+      const fullHeight = height * supersampling;
+      const tileCamera = camera.clone();
+      setCameraAspect(tileCamera, fullWidth / fullHeight);
+
+      const background = scene.background;
+      if (transparentBackground) scene.background = null;
+      try {
+        const columns = Math.ceil(fullWidth / TILE_SIZE);
+        const rows = Math.ceil(fullHeight / TILE_SIZE);
+        for (let row = 0; row < rows; row++) {
+          for (let column = 0; column < columns; column++) {
+            signal?.throwIfAborted();
+            const x = column * TILE_SIZE;
+            const y = row * TILE_SIZE;
+            const tileWidth = Math.min(TILE_SIZE, fullWidth - x);
+            const tileHeight = Math.min(TILE_SIZE, fullHeight - y);
+            renderer.setSize(tileWidth, tileHeight, false);
+            tileCamera.setViewOffset(fullWidth, fullHeight, x, y, tileWidth, tileHeight);
+            renderer.render(scene, tileCamera);
+            context.drawImage(renderer.domElement, x / supersampling, y / supersampling, tileWidth / supersampling, tileHeight / supersampling);
+            onProgress?.((row * columns + column + 1) / (rows * columns));
+            await nextFrame(); // Keeps the page responsive between tiles
+          }
+        }
+      } finally {
+        scene.background = background;
+      }
+      return canvasToPngBlob(output);
+    },
+    dispose() {
+      renderer.dispose();
+      renderer.forceContextLoss(); // Browsers cap the number of live WebGL contexts
+    },
+  };
+}
+
+export async function exportRenderedImage(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  scene: THREE.Scene,
+  camera: ViewCamera,
+  options: ImageRenderOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const imageRenderer = createImageRenderer(scene);
+  try {
+    const blob = await imageRenderer.render(camera, options, onProgress, signal);
+    downloadBlob(blob, buildExportFileName(fractalType, level, size, 'png'));
+  } finally {
+    imageRenderer.dispose();
+  }
+}
@@ -0,0 +1,93 @@
+import type { MeshBuilder } from './meshBuilder';
+import { MARCHING_CUBES_TRIANGLES } from './marchingCubesTables';
+
+// Cell corner offsets in the order the triangle table numbers them.
+const CORNER_OFFSETS = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1],
+];
+
+const EDGE_CORNERS = [
+  [0, 1], [1, 2], [3, 2], [0, 3],
+  [4, 5], [5, 6], [7, 6], [4, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+export interface IsosurfaceOptions {
+  resolution: number; // Cells per axis
+  extent: number; // Samples the cube [-extent, extent]^3 of the field
+  outputScale: number; // Multiplies the sampled coordinates on output
+  onSlice?: () => void; // Called after each of the `resolution` z slices
+}
+
+// Extracts the surface field = 0 with marching cubes, treating negative values as inside, and adds it to
+// the builder with outward winding. Only two z layers of samples are held at a time. Every edge is
+// interpolated from its lower corner, so cells sharing an edge produce identical points and weld.
+export function extractIsosurface(
+  field: (x: number, y: number, z: number) => number,
+  builder: MeshBuilder,
+  { resolution, extent, outputScale, onSlice }: IsosurfaceOptions
+) {
+  const samples = resolution + 1;
+  const cellSize = (2 * extent) / resolution;
+  const coordinate = (i: number) => -extent + i * cellSize;
+  const sampleLayer = (k: number): Float32Array => {
+    const layer = new Float32Array(samples * samples);
+    for (let j = 0; j < samples; j++) {
+      for (let i = 0; i < samples; i++) {
+        const onBoundary = i === 0 || j === 0 || k === 0 || i === resolution || j === resolution || k === resolution;
+        // Boundary samples count as outside, so sets that reach the sampled cube still give a closed mesh
+        const value = field(coordinate(i), coordinate(j), coordinate(k));
+        layer[i + samples * j] = onBoundary ? Math.max(0, value) : value;
+      }
+    }
+    return layer;
+  };
+
+  const values = new Float64Array(8);
+  const edgeVertices = new Array<number>(12);
+  let lower = sampleLayer(0);
+  for (let k = 0; k < resolution; k++) {
+    const upper = sampleLayer(k + 1);
+    for (let j = 0; j < resolution; j++) {
+      for (let i = 0; i < resolution; i++) {
+        let configuration = 0;
+        for (let corner = 0; corner < 8; corner++) {
+          const [di, dj, dk] = CORNER_OFFSETS[corner];
+          values[corner] = (dk ? upper : lower)[i + di + samples * (j + dj)];
+          if (values[corner] < 0) configuration |= 1 << corner;
+        }
+        const triangles = MARCHING_CUBES_TRIANGLES[configuration];
+        if (triangles.length === 0) continue;
+
+        edgeVertices.fill(-1);
+        const edgeVertex = (edge: number): number => {
+          if (edgeVertices[edge] >= 0) return edgeVertices[edge];
+          const [a, b] = EDGE_CORNERS[edge];
+          const t = values[a] / (values[a] - values[b]);
+          const [ai, aj, ak] = CORNER_OFFSETS[a];
+          const [bi, bj, bk] = CORNER_OFFSETS[b];
+          edgeVertices[edge] = builder.addVertex(
+            coordinate(i + ai + (bi - ai) * t) * outputScale,
+            coordinate(j + aj + (bj - aj) * t) * outputScale,
+            coordinate(k + ak + (bk - ak) * t) * outputScale,
+            0
+          );
+          return edgeVertices[edge];
+        };
+
+        for (let t = 0; t < triangles.length; t += 3) {
+          const a = edgeVertex(triangles[t]);
+          const b = edgeVertex(triangles[t + 1]);
+          const c = edgeVertex(triangles[t + 2]);
+          // Interpolated points can weld together next to a sample that sits on the surface
+          if (a === b || b === c || a === c) continue;
+          // The table winds its triangles clockwise seen from outside
+          builder.addFace(a, c, b);
+        }
+      }
+    }
+    lower = upper;
+    onSlice?.();
+  }
+}
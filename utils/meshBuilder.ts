@@ -0,0 +1,141 @@
+import type { FractalMesh } from '../types';
+
+// Vertices closer than this on every axis are welded into one (matches the old toFixed(5) keys).
+const WELD_TOLERANCE = 1e-5;
+const INITIAL_VERTEX_CAPACITY = 1024;
+const INITIAL_FACE_CAPACITY = 1024;
+
+export interface MeshBuilderCapacity {
+  vertices?: number;
+  faces?: number;
+}
+
+// Writes an indexed triangle mesh straight into typed arrays, growing them by doubling.
+// Vertices are welded through an open-addressing hash table keyed by their quantized coordinates.
+export interface MeshBuilder {
+  readonly vertexCount: number;
+  readonly faceCount: number;
+  // Returns the index of the vertex at (x, y, z), adding it with the given recursion depth if it is new.
+  addVertex(x: number, y: number, z: number, depth: number): number;
+  addMidpoint(a: number, b: number, depth: number): number;
+  getPosition(index: number): [number, number, number];
+  addFace(a: number, b: number, c: number): void;
+  // Called before emitting the faces of each top-level sub-cell.
+  beginBranch(branchIndex: number): void;
+  build(): FractalMesh;
+}
+
+function ensureCapacity<T extends Float32Array | Uint32Array | Int32Array | Uint8Array>(
+  array: T,
+  required: number,
+  create: (length: number) => T
+): T {
+  if (required <= array.length) return array;
+  let length = Math.max(array.length, 1);
+  while (length < required) length *= 2;
+  const grown = create(length);
+  grown.set(array);
+  return grown;
+}
+
+function hashLattice(qx: number, qy: number, qz: number): number {
+  return (Math.imul(qx, 73856093) ^ Math.imul(qy, 19349663) ^ Math.imul(qz, 83492791)) >>> 0;
+}
+
+export function createMeshBuilder(capacity: MeshBuilderCapacity = {}): MeshBuilder {
+  const vertexCapacity = Math.max(INITIAL_VERTEX_CAPACITY, Math.ceil(capacity.vertices ?? 0));
+  const faceCapacity = Math.max(INITIAL_FACE_CAPACITY, Math.ceil(capacity.faces ?? 0));
+
+  let positions = new Float32Array(vertexCapacity * 3);
+  let lattice = new Int32Array(vertexCapacity * 3); // Quantized coordinates, compared on hash hits
+  let depths = new Uint8Array(vertexCapacity);
+  let indices = new Uint32Array(faceCapacity * 3);
+  let vertexCount = 0;
+  let faceCount = 0;
+  const branchFaceOffsets = [0];
+
+  // Slots hold vertexIndex + 1 so that 0 marks an empty slot; kept at most half full.
+  let slots = new Int32Array(1 << Math.ceil(Math.log2(vertexCapacity * 2)));
+  let slotMask = slots.length - 1;
+
+  const findSlot = (qx: number, qy: number, qz: number): number => {
+    let slot = hashLattice(qx, qy, qz) & slotMask;
+    while (slots[slot] !== 0) {
+      const q = (slots[slot] - 1) * 3;
+      if (lattice[q] === qx && lattice[q + 1] === qy && lattice[q + 2] === qz) break;
+      slot = (slot + 1) & slotMask;
+    }
+    return slot;
+  };
+
+  const growSlots = () => {
+    slots = new Int32Array(slots.length * 2);
+    slotMask = slots.length - 1;
+    for (let i = 0; i < vertexCount; i++) {
+      slots[findSlot(lattice[i * 3], lattice[i * 3 + 1], lattice[i * 3 + 2])] = i + 1;
+    }
+  };
+
+  const addVertex = (x: number, y: number, z: number, depth: number): number => {
+    const qx = Math.round(x / WELD_TOLERANCE);
+    const qy = Math.round(y / WELD_TOLERANCE);
+    const qz = Math.round(z / WELD_TOLERANCE);
+    const slot = findSlot(qx, qy, qz);
+    if (slots[slot] !== 0) return slots[slot] - 1;
+
+    const index = vertexCount++;
+    positions = ensureCapacity(positions, vertexCount * 3, n => new Float32Array(n));
+    lattice = ensureCapacity(lattice, vertexCount * 3, n => new Int32Array(n));
+    depths = ensureCapacity(depths, vertexCount, n => new Uint8Array(n));
+    positions[index * 3] = x;
+    positions[index * 3 + 1] = y;
+    positions[index * 3 + 2] = z;
+    lattice[index * 3] = qx;
+    lattice[index * 3 + 1] = qy;
+    lattice[index * 3 + 2] = qz;
+    depths[index] = depth;
+    slots[slot] = index + 1;
+    if (vertexCount * 2 > slots.length) growSlots();
+    return index;
+  };
+
+  return {
+    get vertexCount() {
+      return vertexCount;
+    },
+    get faceCount() {
+      return faceCount;
+    },
+    addVertex,
+    addMidpoint(a, b, depth) {
+      return addVertex(
+        (positions[a * 3] + positions[b * 3]) * 0.5,
+        (positions[a * 3 + 1] + positions[b * 3 + 1]) * 0.5,
+        (positions[a * 3 + 2] + positions[b * 3 + 2]) * 0.5,
+        depth
+      );
+    },
+    getPosition(index) {
+      return [positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]];
+    },
+    addFace(a, b, c) {
+      indices = ensureCapacity(indices, (faceCount + 1) * 3, n => new Uint32Array(n));
+      indices[faceCount * 3] = a;
+      indices[faceCount * 3 + 1] = b;
+      indices[faceCount * 3 + 2] = c;
+      faceCount++;
+    },
+    beginBranch(branchIndex) {
+      if (branchIndex > 0) branchFaceOffsets.push(faceCount);
+    },
+    build() {
+      // slice() rather than subarray() so the transferred buffers carry no unused capacity
+      return {
+        positions: positions.slice(0, vertexCount * 3),
+        indices: indices.slice(0, faceCount * 3),
+        vertexDepths: depths.slice(0, vertexCount),
+        branchFaceOffsets: [...branchFaceOffsets],
+      };
+    },
+  };
+}
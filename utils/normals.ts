@@ -0,0 +1,37 @@
+// Area-weighted smooth vertex normals for an indexed triangle list, matching
+// what THREE.BufferGeometry.computeVertexNormals produces for the preview mesh.
+export function computeVertexNormals(positions: ArrayLike<number>, indices: ArrayLike<number>): Float32Array {
+  const normals = new Float32Array(positions.length);
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i] * 3;
+    const b = indices[i + 1] * 3;
+    const c = indices[i + 2] * 3;
+    const ux = positions[b] - positions[a], uy = positions[b + 1] - positions[a + 1], uz = positions[b + 2] - positions[a + 2];
+    const vx = positions[c] - positions[a], vy = positions[c + 1] - positions[a + 1], vz = positions[c + 2] - positions[a + 2];
+    // Unnormalized cross product, so larger triangles contribute more.
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    for (const v of [a, b, c]) {
+      normals[v] += nx;
+      normals[v + 1] += ny;
+      normals[v + 2] += nz;
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.sqrt(normals[i] * normals[i] + normals[i + 1] * normals[i + 1] + normals[i + 2] * normals[i + 2]);
+    if (length > 0) {
+      normals[i] /= length;
+      normals[i + 1] /= length;
+      normals[i + 2] /= length;
+    } else {
+      // Only degenerate faces (or none) touch this vertex; exporters expect unit normals, so point it along +Z.
+      normals[i] = 0;
+      normals[i + 1] = 0;
+      normals[i + 2] = 1;
+    }
+  }
+  return normals;
+}
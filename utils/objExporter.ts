@@ -1,42 +1,146 @@
-import type { Face, FractalType } from '../types';
+import type { ExportMaterial, FractalMesh, FractalTypeId } from '../types';
+import { buildExportFileName, hexToRgb } from './helpers';
+import { openExportSink, yieldToBrowser, type ExportSink } from './exportSink';
+import { computeVertexNormals } from './normals';
+import { createZipWriter } from './zipWriter';
 
-// THREE.Vector3 should be available globally via types.ts
-// No need for specific `type ThreeVector3 = THREE.Vector3;` alias here if THREE is globally typed.
+// Lines per chunk: large enough to keep per-chunk overhead low, small enough to keep the tab responsive.
+const OBJ_CHUNK_LINES = 50000;
+const OBJ_MATERIAL_NAME = 'fractal_material';
 
-export function exportToObjFile(
-  fractalType: FractalType,
+export interface ObjExportOptions {
+  includeNormals?: boolean; // Writes smooth `vn` normals and `f v//vn` faces
+  material?: ExportMaterial; // Writes a companion .mtl; both files are downloaded as one zip
+  groupByBranch?: boolean; // Splits the mesh into one `o`/`g` group per top-level sub-cell
+  colors?: ArrayLike<number>; // r, g, b per vertex in 0-255, appended to the `v` lines (a widely read extension)
+  onProgress?: (fraction: number) => void; // 0-1, called after every chunk
+  signal?: AbortSignal;
+}
+
+function buildMtl(fractalType: FractalTypeId, material: ExportMaterial): string {
+  const [r, g, b] = hexToRgb(material.color).map(c => (c / 255).toFixed(6));
+  const [er, eg, eb] = hexToRgb(material.emissive).map(c => (c / 255).toFixed(6));
+  // Approximates the PBR settings with Phong terms; Pr/Pm are read by PBR-aware importers (e.g. Blender).
+  const specular = (0.04 + 0.96 * material.metalness).toFixed(6);
+  const shininess = ((1 - material.roughness) * (1 - material.roughness) * 1000).toFixed(1);
+  return [
+    `# ${fractalType}`,
+    '# Generated by 3D Fractal Explorer (React Edition)',
+    `newmtl ${OBJ_MATERIAL_NAME}`,
+    'Ka 0.000000 0.000000 0.000000',
+    `Kd ${r} ${g} ${b}`,
+    `Ks ${specular} ${specular} ${specular}`,
+    `Ns ${shininess}`,
+    `Ke ${er} ${eg} ${eb}`,
+    `d ${material.opacity.toFixed(6)}`,
+    'illum 2',
+    `Pr ${material.roughness.toFixed(6)}`,
+    `Pm ${material.metalness.toFixed(6)}`,
+    '',
+  ].join('\n');
+}
+
+// Opens the destination for exportToObjFile: the .obj itself, or a zip when a material is written.
+// Must be called before the first await of a click handler (see openExportSink).
+export function openObjExportSink(fractalType: FractalTypeId, level: number, size: number, withMaterial: boolean): Promise<ExportSink> {
+  return openExportSink(withMaterial
+    ? { fileName: buildExportFileName(fractalType, level, size, 'zip'), mimeType: 'application/zip', description: 'OBJ + MTL (zip)', extension: '.zip' }
+    : { fileName: buildExportFileName(fractalType, level, size, 'obj'), mimeType: 'text/plain', description: 'Wavefront OBJ', extension: '.obj' });
+}
+
+// Streams the OBJ in chunks into a sink from openObjExportSink and resolves once the file is written
+// or downloaded. Rejects with an AbortError when cancelled through the signal.
+export async function exportToObjFile(
+  fractalType: FractalTypeId,
   level: number,
   size: number,
-  vertices: THREE.Vector3[], // Use THREE.Vector3 directly
-  faces: Face[]
-): void {
-  if (!vertices.length || !faces.length) {
+  mesh: FractalMesh,
+  sink: ExportSink,
+  options: ObjExportOptions = {}
+): Promise<void> {
+  const { positions, indices } = mesh;
+  if (!positions.length || !indices.length) {
     console.error("No data to export.");
+    await sink.abort();
     return;
   }
 
-  let objContent = `# ${fractalType}\n`;
-  objContent += `# Generated by 3D Fractal Explorer (React Edition)\n`;
-  objContent += `# Level: ${level}, Size: ${size.toFixed(1)}\n`;
-  objContent += `# Vertices: ${vertices.length}\n`;
-  objContent += `# Faces: ${faces.length}\n\n`;
+  const { includeNormals = false, material, groupByBranch = false, colors, onProgress, signal } = options;
+  const vertexCount = positions.length / 3;
+  const faceCount = indices.length / 3;
+  const objFileName = buildExportFileName(fractalType, level, size, 'obj');
+  const mtlFileName = buildExportFileName(fractalType, level, size, 'mtl');
+  const zip = material ? createZipWriter(sink) : null;
+  const write = (chunk: string) => (zip ? zip.write(chunk) : sink.write(chunk));
 
-  for (let i = 0; i < vertices.length; i++) {
-    const v = vertices[i];
-    objContent += `v ${v.x.toFixed(6)} ${v.y.toFixed(6)} ${v.z.toFixed(6)}\n`;
-  }
-  objContent += "\n";
-  for (let i = 0; i < faces.length; i++) {
-    const face = faces[i];
-    objContent += `f ${face.v1 + 1} ${face.v2 + 1} ${face.v3 + 1}\n`;
-  }
+  try {
+    if (zip) await zip.startFile(objFileName);
+
+    let header = `# ${fractalType}\n`;
+    header += `# Generated by 3D Fractal Explorer (React Edition)\n`;
+    header += `# Level: ${level}, Size: ${size.toFixed(1)}\n`;
+    header += `# Vertices: ${vertexCount}\n`;
+    header += `# Faces: ${faceCount}\n\n`;
+    if (material) header += `mtllib ${mtlFileName}\n\n`;
+    await write(header);
+
+    const normals = includeNormals ? computeVertexNormals(positions, indices) : null;
+    const totalLines = vertexCount * (normals ? 2 : 1) + faceCount;
+    let writtenLines = 0;
+    const writeLines = async (start: number, end: number, formatLine: (i: number) => string, trailer: string) => {
+      for (let chunkStart = start; chunkStart < end; chunkStart += OBJ_CHUNK_LINES) {
+        signal?.throwIfAborted();
+        const chunkEnd = Math.min(chunkStart + OBJ_CHUNK_LINES, end);
+        const lines = new Array<string>(chunkEnd - chunkStart);
+        for (let i = chunkStart; i < chunkEnd; i++) {
+          lines[i - chunkStart] = formatLine(i);
+        }
+        await write(lines.join('\n') + '\n' + (chunkEnd === end ? trailer : ''));
+        writtenLines += chunkEnd - chunkStart;
+        onProgress?.(writtenLines / totalLines);
+        await yieldToBrowser();
+      }
+    };
 
-  const blob = new Blob([objContent], { type: 'text/plain;charset=utf-8' });
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(blob);
-  link.download = `${fractalType}_level${level}_size${size.toFixed(1)}.obj`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(link.href);
+    const formatVertex = colors
+      ? (i: number) => `v ${positions[i * 3].toFixed(6)} ${positions[i * 3 + 1].toFixed(6)} ${positions[i * 3 + 2].toFixed(6)} ${(colors[i * 3] / 255).toFixed(4)} ${(colors[i * 3 + 1] / 255).toFixed(4)} ${(colors[i * 3 + 2] / 255).toFixed(4)}`
+      : (i: number) => `v ${positions[i * 3].toFixed(6)} ${positions[i * 3 + 1].toFixed(6)} ${positions[i * 3 + 2].toFixed(6)}`;
+    await writeLines(0, vertexCount, formatVertex, '\n');
+    if (normals) {
+      await writeLines(0, vertexCount, i => `vn ${normals[i * 3].toFixed(6)} ${normals[i * 3 + 1].toFixed(6)} ${normals[i * 3 + 2].toFixed(6)}`, '\n');
+    }
+
+    // Normal indices match vertex indices, since normals are per vertex.
+    const formatFace = normals
+      ? (i: number) => {
+        const a = indices[i * 3] + 1, b = indices[i * 3 + 1] + 1, c = indices[i * 3 + 2] + 1;
+        return `f ${a}//${a} ${b}//${b} ${c}//${c}`;
+      }
+      : (i: number) => `f ${indices[i * 3] + 1} ${indices[i * 3 + 1] + 1} ${indices[i * 3 + 2] + 1}`;
+    const groupOffsets = groupByBranch && mesh.branchFaceOffsets.length > 0 ? mesh.branchFaceOffsets : [0];
+    for (let branch = 0; branch < groupOffsets.length; branch++) {
+      const start = groupOffsets[branch];
+      const end = branch + 1 < groupOffsets.length ? groupOffsets[branch + 1] : faceCount;
+      let groupHeader = '';
+      if (groupByBranch) {
+        const groupName = `${fractalType}_branch${branch}`;
+        groupHeader += `o ${groupName}\ng ${groupName}\n`;
+      }
+      if (material) groupHeader += `usemtl ${OBJ_MATERIAL_NAME}\n`;
+      if (groupHeader) await write(groupHeader);
+      await writeLines(start, end, formatFace, branch + 1 < groupOffsets.length ? '\n' : '');
+    }
+
+    signal?.throwIfAborted();
+    if (zip && material) {
+      await zip.endFile();
+      await zip.addFile(mtlFileName, buildMtl(fractalType, material));
+      await zip.close();
+    } else {
+      await sink.close();
+    }
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
 }
@@ -0,0 +1,86 @@
+export type PlatonicSolid = 'tetrahedron' | 'cube' | 'octahedron' | 'dodecahedron' | 'icosahedron';
+
+export interface PolyhedronMesh {
+  vertices: number[][]; // Unit circumradius, centred on the origin
+  faces: number[][]; // Triangles wound counter-clockwise seen from outside
+  planes: number[][]; // Outward unit normal and offset [nx, ny, nz, d] of each face, with n . p <= d inside
+}
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+const PLANE_EPSILON = 1e-9;
+
+// Faces of a convex polyhedron whose vertices all lie on its hull: every plane through three vertices
+// with no vertex outside it is a face; its vertices are sorted around the face normal and fanned.
+function buildConvexPolyhedron(points: number[][]): PolyhedronMesh {
+  const length = Math.hypot(...points[0]);
+  const vertices = points.map(p => p.map(c => c / length));
+  const faces: number[][] = [];
+  const planes: number[][] = [];
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const sub = (a: number[], b: number[]) => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      for (let k = j + 1; k < vertices.length; k++) {
+        let normal = cross(sub(vertices[j], vertices[i]), sub(vertices[k], vertices[i]));
+        const normalLength = Math.hypot(...normal);
+        if (normalLength < PLANE_EPSILON) continue;
+        normal = normal.map(c => c / normalLength);
+        let offset = dot(normal, vertices[i]);
+        if (offset < 0) {
+          normal = normal.map(c => -c);
+          offset = -offset;
+        }
+        if (vertices.some(v => dot(normal, v) > offset + PLANE_EPSILON)) continue;
+        if (planes.some(p => Math.abs(dot(p, normal) - 1) < PLANE_EPSILON)) continue;
+
+        const onPlane = vertices.map((_, index) => index).filter(index => Math.abs(dot(normal, vertices[index]) - offset) < PLANE_EPSILON);
+        const center = [0, 1, 2].map(axis => onPlane.reduce((sum, index) => sum + vertices[index][axis], 0) / onPlane.length);
+        const u = sub(vertices[onPlane[0]], center);
+        const w = cross(normal, u);
+        const angle = (index: number) => {
+          const d = sub(vertices[index], center);
+          return Math.atan2(dot(d, w), dot(d, u));
+        };
+        onPlane.sort((a, b) => angle(a) - angle(b));
+        for (let t = 1; t + 1 < onPlane.length; t++) {
+          faces.push([onPlane[0], onPlane[t], onPlane[t + 1]]);
+        }
+        planes.push([...normal, offset]);
+      }
+    }
+  }
+  return { vertices, faces, planes };
+}
+
+function allSignCombinations(template: number[]): number[][] {
+  let results: number[][] = [[]];
+  for (const value of template) {
+    results = results.flatMap(prefix => (value === 0 ? [[...prefix, 0]] : [[...prefix, value], [...prefix, -value]]));
+  }
+  return results;
+}
+
+// Cyclic permutations of (a, b, c) with every sign combination.
+function cyclicPermutations(a: number, b: number, c: number): number[][] {
+  return [[a, b, c], [b, c, a], [c, a, b]].flatMap(allSignCombinations);
+}
+
+export const PLATONIC_SOLIDS: Record<PlatonicSolid, PolyhedronMesh> = {
+  tetrahedron: buildConvexPolyhedron([[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]]),
+  cube: buildConvexPolyhedron(allSignCombinations([1, 1, 1])),
+  octahedron: buildConvexPolyhedron(cyclicPermutations(1, 0, 0)),
+  dodecahedron: buildConvexPolyhedron([...allSignCombinations([1, 1, 1]), ...cyclicPermutations(0, 1 / PHI, PHI)]),
+  icosahedron: buildConvexPolyhedron(cyclicPermutations(0, 1, PHI)),
+};
+
+// Scale of the copies placed at each vertex of an n-flake, chosen so that neighbouring copies touch
+// without overlapping.
+export const FLAKE_RATIOS: Record<PlatonicSolid, number> = {
+  tetrahedron: 1 / 2,
+  cube: 1 / 2,
+  octahedron: 1 / 2,
+  dodecahedron: 1 / (2 + PHI),
+  icosahedron: 1 / (1 + PHI),
+};
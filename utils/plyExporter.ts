@@ -0,0 +1,160 @@
+import type { FractalMesh, FractalTypeId, PlyFormat } from '../types';
+import { buildExportFileName, downloadBlob } from './helpers';
+import { computeVertexNormals } from './normals';
+
+export type PlyScalarType = 'uchar' | 'int' | 'float';
+
+export interface PlyScalarProperty {
+  name: string; // e.g. 'depth'; must be a single token
+  type: PlyScalarType;
+  values: ArrayLike<number>; // one value per vertex
+}
+
+export interface PlyExportOptions {
+  format: PlyFormat;
+  colors?: ArrayLike<number>; // r, g, b per vertex in 0-255
+  scalarProperty?: PlyScalarProperty;
+}
+
+const SCALAR_BYTES: Record<PlyScalarType, number> = { uchar: 1, int: 4, float: 4 };
+
+function buildHeader(
+  format: PlyFormat,
+  comments: string[],
+  vertexCount: number,
+  faceCount: number,
+  hasColors: boolean,
+  scalarProperty?: PlyScalarProperty
+): string {
+  const lines = [
+    'ply',
+    `format ${format === 'binary' ? 'binary_little_endian' : 'ascii'} 1.0`,
+    ...comments.map(comment => `comment ${comment}`),
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float nx',
+    'property float ny',
+    'property float nz',
+  ];
+  if (hasColors) {
+    lines.push('property uchar red', 'property uchar green', 'property uchar blue');
+  }
+  if (scalarProperty) {
+    lines.push(`property ${scalarProperty.type} ${scalarProperty.name}`);
+  }
+  lines.push(
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    ''
+  );
+  return lines.join('\n');
+}
+
+function buildBinaryBody(
+  positions: ArrayLike<number>,
+  normals: Float32Array,
+  indices: ArrayLike<number>,
+  colors: ArrayLike<number> | undefined,
+  scalarProperty: PlyScalarProperty | undefined
+): ArrayBuffer {
+  const vertexCount = positions.length / 3;
+  const faceCount = indices.length / 3;
+  const vertexStride = 24 + (colors ? 3 : 0) + (scalarProperty ? SCALAR_BYTES[scalarProperty.type] : 0);
+  const buffer = new ArrayBuffer(vertexCount * vertexStride + faceCount * 13);
+  const view = new DataView(buffer);
+
+  let offset = 0;
+  for (let i = 0; i < vertexCount; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      view.setFloat32(offset, positions[i * 3 + axis], true);
+      offset += 4;
+    }
+    for (let axis = 0; axis < 3; axis++) {
+      view.setFloat32(offset, normals[i * 3 + axis], true);
+      offset += 4;
+    }
+    if (colors) {
+      view.setUint8(offset++, colors[i * 3]);
+      view.setUint8(offset++, colors[i * 3 + 1]);
+      view.setUint8(offset++, colors[i * 3 + 2]);
+    }
+    if (scalarProperty) {
+      const value = scalarProperty.values[i];
+      if (scalarProperty.type === 'uchar') view.setUint8(offset, value);
+      else if (scalarProperty.type === 'int') view.setInt32(offset, value, true);
+      else view.setFloat32(offset, value, true);
+      offset += SCALAR_BYTES[scalarProperty.type];
+    }
+  }
+
+  for (let i = 0; i < indices.length; i += 3) {
+    view.setUint8(offset++, 3);
+    view.setInt32(offset, indices[i], true);
+    view.setInt32(offset + 4, indices[i + 1], true);
+    view.setInt32(offset + 8, indices[i + 2], true);
+    offset += 12;
+  }
+  return buffer;
+}
+
+function buildAsciiBody(
+  positions: ArrayLike<number>,
+  normals: Float32Array,
+  indices: ArrayLike<number>,
+  colors: ArrayLike<number> | undefined,
+  scalarProperty: PlyScalarProperty | undefined
+): string {
+  const lines: string[] = [];
+  const vertexCount = positions.length / 3;
+  for (let i = 0; i < vertexCount; i++) {
+    let line = `${positions[i * 3].toFixed(6)} ${positions[i * 3 + 1].toFixed(6)} ${positions[i * 3 + 2].toFixed(6)}`
+      + ` ${normals[i * 3].toFixed(6)} ${normals[i * 3 + 1].toFixed(6)} ${normals[i * 3 + 2].toFixed(6)}`;
+    if (colors) {
+      line += ` ${colors[i * 3]} ${colors[i * 3 + 1]} ${colors[i * 3 + 2]}`;
+    }
+    if (scalarProperty) {
+      const value = scalarProperty.values[i];
+      line += scalarProperty.type === 'float' ? ` ${value.toFixed(6)}` : ` ${Math.round(value)}`;
+    }
+    lines.push(line);
+  }
+  for (let i = 0; i < indices.length; i += 3) {
+    lines.push(`3 ${indices[i]} ${indices[i + 1]} ${indices[i + 2]}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function exportToPlyFile(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  mesh: FractalMesh,
+  options: PlyExportOptions
+): void {
+  const { positions, indices } = mesh;
+  if (!positions.length || !indices.length) {
+    console.error("No data to export.");
+    return;
+  }
+
+  const { format, colors, scalarProperty } = options;
+  const normals = computeVertexNormals(positions, indices);
+  const header = buildHeader(
+    format,
+    [`${fractalType}`, 'Generated by 3D Fractal Explorer (React Edition)', `Level: ${level}, Size: ${size.toFixed(1)}`],
+    positions.length / 3,
+    indices.length / 3,
+    !!colors,
+    scalarProperty
+  );
+
+  const body = format === 'binary'
+    ? buildBinaryBody(positions, normals, indices, colors, scalarProperty)
+    : buildAsciiBody(positions, normals, indices, colors, scalarProperty);
+  const blob = new Blob([header, body], { type: 'application/octet-stream' });
+  downloadBlob(blob, buildExportFileName(fractalType, level, size, 'ply'));
+}
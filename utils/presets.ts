@@ -0,0 +1,330 @@
+import {
+  FractalType,
+  type AutoRotateSettings,
+  type CameraProjection,
+  type ColoringMode,
+  type ColoringSettings,
+  type FractalParameters,
+  type IfsSettings,
+  type IfsTransform,
+  type LightSettings,
+  type MaterialSettings,
+  type MaterialSide,
+  type NumericRange,
+  type Vector3D,
+} from '../types';
+import {
+  AUTO_ROTATE_AXIS_WEIGHT_RANGE,
+  AUTO_ROTATE_SPEED_RANGE,
+  DEFAULT_AUTO_ROTATE_SETTINGS,
+  DEFAULT_COLORING_SETTINGS,
+  DEFAULT_FRACTAL_PARAMS,
+  DEFAULT_LIGHT_SETTINGS,
+  DEFAULT_MATERIAL_SETTINGS,
+  ESCAPE_TIME_RANGES,
+  FRACTAL_SIZE_RANGE,
+  GRADIENT_MAX_STOPS,
+  GRADIENT_MIN_STOPS,
+  GRADIENT_POSITION_RANGE,
+  IFS_MAX_TRANSFORMS,
+  LIGHT_INTENSITY_RANGES,
+  LIGHT_POSITION_RANGE,
+  MATERIAL_RANGES,
+} from '../constants';
+import { clampFractalLevel, getFractalDefinitions } from './fractalRegistry';
+import { IFS_PRIMITIVES, isIfsPrimitive } from './fractalGeneration';
+import { readLocalStorage, writeLocalStorage } from './helpers';
+
+// The settings a preset restores.
+export interface PresetSnapshot {
+  fractalParams: FractalParameters;
+  lightSettings: LightSettings;
+  materialSettings: MaterialSettings;
+}
+
+export interface FractalPreset extends PresetSnapshot {
+  name: string;
+}
+
+// The last session: the settings of a preset plus viewer settings that presets leave alone.
+// Camera bookmarks are kept under their own storage key (see cameraBookmarks.ts).
+export interface AutosavedSession extends PresetSnapshot {
+  autoRotateSettings: AutoRotateSettings;
+  cameraProjection: CameraProjection;
+}
+
+// Version of the snapshot schema, written into preset files and localStorage.
+// Bump it together with a new entry in SNAPSHOT_MIGRATIONS whenever PresetSnapshot changes shape.
+export const PRESET_SCHEMA_VERSION = 3;
+const PRESET_FILE_FORMAT = 'fractal-explorer-presets';
+const PRESETS_STORAGE_KEY = 'fractalExplorer.presets';
+const AUTOSAVE_STORAGE_KEY = 'fractalExplorer.autosave';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// SNAPSHOT_MIGRATIONS[i] upgrades a snapshot of schema version i + 1 to version i + 2.
+const SNAPSHOT_MIGRATIONS: ((snapshot: JsonObject) => JsonObject)[] = [
+  // 2: fractalParams.coloring; older snapshots keep their single color
+  snapshot => (isObject(snapshot.fractalParams)
+    ? { ...snapshot, fractalParams: { ...snapshot.fractalParams, coloring: DEFAULT_COLORING_SETTINGS } }
+    : snapshot),
+  // 3: materialSettings; older snapshots were shown with the default material
+  snapshot => ({ ...snapshot, materialSettings: DEFAULT_MATERIAL_SETTINGS }),
+];
+
+const COLORING_MODES: ColoringMode[] = ['solid', 'depth', 'branch', 'axis', 'radial'];
+const MATERIAL_SIDES: MaterialSide[] = ['auto', 'front', 'back', 'double'];
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+export const BUILTIN_PRESETS: FractalPreset[] = [
+  {
+    name: 'メンガースポンジ (金)',
+    fractalParams: { ...DEFAULT_FRACTAL_PARAMS, type: FractalType.MengerSponge, level: 3, color: '#D4A017' },
+    lightSettings: { ...DEFAULT_LIGHT_SETTINGS, ambientIntensity: 0.6, directionalIntensity: 1.6 },
+    materialSettings: { ...DEFAULT_MATERIAL_SETTINGS, metalness: 0.8, roughness: 0.35 },
+  },
+  {
+    name: 'シェルピンスキー四面体 (夕景)',
+    fractalParams: { ...DEFAULT_FRACTAL_PARAMS, type: FractalType.SierpinskiTetrahedron, level: 5, color: '#FF7F50' },
+    lightSettings: { ...DEFAULT_LIGHT_SETTINGS, ambientIntensity: 0.4, directionalPosition: { x: -30, y: 12, z: 20 }, hemisphereIntensity: 1.2 },
+    materialSettings: DEFAULT_MATERIAL_SETTINGS,
+  },
+  {
+    name: 'マンデルバルブ (紫)',
+    fractalParams: { ...DEFAULT_FRACTAL_PARAMS, type: FractalType.Mandelbulb, level: 8, size: 4, color: '#9370DB' },
+    lightSettings: { ...DEFAULT_LIGHT_SETTINGS, directionalIntensity: 1.8, fillIntensity: 0.8 },
+    materialSettings: DEFAULT_MATERIAL_SETTINGS,
+  },
+  {
+    name: 'コッホ四面体 (氷)',
+    fractalParams: { ...DEFAULT_FRACTAL_PARAMS, type: FractalType.KochTetrahedron, level: 3, color: '#87CEEB' },
+    lightSettings: { ...DEFAULT_LIGHT_SETTINGS, ambientIntensity: 1.0, directionalPosition: { x: 10, y: 40, z: 15 } },
+    materialSettings: { ...DEFAULT_MATERIAL_SETTINGS, roughness: 0.2, opacity: 0.75 },
+  },
+];
+
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (!isObject(value)) throw new Error(`${path} must be an object.`);
+  return value;
+}
+
+// Numbers outside a slider's range are clamped rather than rejected.
+function expectNumber(value: unknown, path: string, range?: NumericRange): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${path} must be a finite number.`);
+  return range ? Math.min(range.max, Math.max(range.min, value)) : value;
+}
+
+function expectVector(value: unknown, path: string, range?: NumericRange): Vector3D {
+  const vector = expectObject(value, path);
+  return {
+    x: expectNumber(vector.x, `${path}.x`, range),
+    y: expectNumber(vector.y, `${path}.y`, range),
+    z: expectNumber(vector.z, `${path}.z`, range),
+  };
+}
+
+function readIfsSettings(value: unknown, path: string): IfsSettings {
+  const ifs = expectObject(value, path);
+  if (!isIfsPrimitive(ifs.primitive)) {
+    throw new Error(`${path}.primitive must be one of ${Object.keys(IFS_PRIMITIVES).join(', ')}.`);
+  }
+  if (!Array.isArray(ifs.transforms) || ifs.transforms.length < 1 || ifs.transforms.length > IFS_MAX_TRANSFORMS) {
+    throw new Error(`${path}.transforms must hold 1-${IFS_MAX_TRANSFORMS} transforms.`);
+  }
+  const transforms = ifs.transforms.map((item, index): IfsTransform => {
+    const transform = expectObject(item, `${path}.transforms[${index}]`);
+    return {
+      scale: expectVector(transform.scale, `${path}.transforms[${index}].scale`),
+      rotation: expectVector(transform.rotation, `${path}.transforms[${index}].rotation`),
+      translation: expectVector(transform.translation, `${path}.transforms[${index}].translation`),
+    };
+  });
+  return { primitive: ifs.primitive, transforms };
+}
+
+function readColoringSettings(value: unknown, path: string): ColoringSettings {
+  const coloring = expectObject(value, path);
+  if (!COLORING_MODES.includes(coloring.mode as ColoringMode)) throw new Error(`${path}.mode must be one of ${COLORING_MODES.join(', ')}.`);
+  if (coloring.axis !== 'x' && coloring.axis !== 'y' && coloring.axis !== 'z') throw new Error(`${path}.axis must be 'x', 'y' or 'z'.`);
+  if (!Array.isArray(coloring.gradient) || coloring.gradient.length < GRADIENT_MIN_STOPS || coloring.gradient.length > GRADIENT_MAX_STOPS) {
+    throw new Error(`${path}.gradient must hold ${GRADIENT_MIN_STOPS}-${GRADIENT_MAX_STOPS} stops.`);
+  }
+  const gradient = coloring.gradient.map((item, index) => {
+    const stop = expectObject(item, `${path}.gradient[${index}]`);
+    if (!isHexColor(stop.color)) throw new Error(`${path}.gradient[${index}].color must be a '#RRGGBB' string.`);
+    return { position: expectNumber(stop.position, `${path}.gradient[${index}].position`, GRADIENT_POSITION_RANGE), color: stop.color };
+  });
+  return { mode: coloring.mode as ColoringMode, axis: coloring.axis, gradient };
+}
+
+function readFractalParams(value: unknown, path: string): FractalParameters {
+  const params = expectObject(value, path);
+  const definition = getFractalDefinitions().find(d => d.id === params.type);
+  if (!definition) throw new Error(`${path}.type "${String(params.type)}" is not a known fractal type.`);
+  if (!isHexColor(params.color)) {
+    throw new Error(`${path}.color must be a '#RRGGBB' string.`);
+  }
+  if (params.surface !== 'raw' && params.surface !== 'outer') throw new Error(`${path}.surface must be 'raw' or 'outer'.`);
+  const escapeTime = expectObject(params.escapeTime, `${path}.escapeTime`);
+  return {
+    type: definition.id,
+    level: clampFractalLevel(definition, Math.round(expectNumber(params.level, `${path}.level`))),
+    size: expectNumber(params.size, `${path}.size`, FRACTAL_SIZE_RANGE),
+    color: params.color,
+    coloring: readColoringSettings(params.coloring, `${path}.coloring`),
+    ifs: readIfsSettings(params.ifs, `${path}.ifs`),
+    escapeTime: {
+      power: Math.round(expectNumber(escapeTime.power, `${path}.escapeTime.power`, ESCAPE_TIME_RANGES.power)),
+      boxScale: expectNumber(escapeTime.boxScale, `${path}.escapeTime.boxScale`, ESCAPE_TIME_RANGES.boxScale),
+      resolution: Math.round(expectNumber(escapeTime.resolution, `${path}.escapeTime.resolution`, ESCAPE_TIME_RANGES.resolution)),
+    },
+    surface: params.surface,
+  };
+}
+
+function readLightSettings(value: unknown, path: string): LightSettings {
+  const light = expectObject(value, path);
+  return {
+    ambientIntensity: expectNumber(light.ambientIntensity, `${path}.ambientIntensity`, LIGHT_INTENSITY_RANGES.ambientIntensity),
+    directionalIntensity: expectNumber(light.directionalIntensity, `${path}.directionalIntensity`, LIGHT_INTENSITY_RANGES.directionalIntensity),
+    directionalPosition: expectVector(light.directionalPosition, `${path}.directionalPosition`, LIGHT_POSITION_RANGE),
+    fillIntensity: expectNumber(light.fillIntensity, `${path}.fillIntensity`, LIGHT_INTENSITY_RANGES.fillIntensity),
+    hemisphereIntensity: expectNumber(light.hemisphereIntensity, `${path}.hemisphereIntensity`, LIGHT_INTENSITY_RANGES.hemisphereIntensity),
+  };
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new Error(`${path} must be true or false.`);
+  return value;
+}
+
+function readMaterialSettings(value: unknown, path: string): MaterialSettings {
+  const material = expectObject(value, path);
+  if (!isHexColor(material.emissive)) throw new Error(`${path}.emissive must be a '#RRGGBB' string.`);
+  if (!MATERIAL_SIDES.includes(material.side as MaterialSide)) throw new Error(`${path}.side must be one of ${MATERIAL_SIDES.join(', ')}.`);
+  return {
+    metalness: expectNumber(material.metalness, `${path}.metalness`, MATERIAL_RANGES.metalness),
+    roughness: expectNumber(material.roughness, `${path}.roughness`, MATERIAL_RANGES.roughness),
+    flatShading: expectBoolean(material.flatShading, `${path}.flatShading`),
+    wireframe: expectBoolean(material.wireframe, `${path}.wireframe`),
+    opacity: expectNumber(material.opacity, `${path}.opacity`, MATERIAL_RANGES.opacity),
+    emissive: material.emissive,
+    side: material.side as MaterialSide,
+  };
+}
+
+// Brings a snapshot of an older schema version up to date, then validates it.
+function readSnapshot(value: unknown, version: number, path: string): PresetSnapshot {
+  let snapshot = expectObject(value, path);
+  for (let v = version; v < PRESET_SCHEMA_VERSION; v++) {
+    snapshot = SNAPSHOT_MIGRATIONS[v - 1](snapshot);
+  }
+  return {
+    fractalParams: readFractalParams(snapshot.fractalParams, `${path}.fractalParams`),
+    lightSettings: readLightSettings(snapshot.lightSettings, `${path}.lightSettings`),
+    materialSettings: readMaterialSettings(snapshot.materialSettings, `${path}.materialSettings`),
+  };
+}
+
+function expectVersion(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) throw new Error('version must be a positive integer.');
+  if (value > PRESET_SCHEMA_VERSION) {
+    throw new Error(`version ${value} is newer than this app supports (${PRESET_SCHEMA_VERSION}).`);
+  }
+  return value;
+}
+
+function toSnapshotJson({ fractalParams, lightSettings, materialSettings }: PresetSnapshot): PresetSnapshot {
+  return { fractalParams, lightSettings, materialSettings };
+}
+
+export function serializePresetFile(presets: FractalPreset[]): string {
+  return JSON.stringify({
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_SCHEMA_VERSION,
+    presets: presets.map(preset => ({ name: preset.name, ...toSnapshotJson(preset) })),
+  }, null, 2);
+}
+
+// Parses and validates a preset file, migrating presets written by older versions.
+// Throws an Error naming the offending field when the file does not match the schema.
+export function parsePresetFile(text: string): FractalPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const file = expectObject(data, 'file');
+  if (file.format !== PRESET_FILE_FORMAT) throw new Error(`format must be "${PRESET_FILE_FORMAT}".`);
+  const version = expectVersion(file.version);
+  if (!Array.isArray(file.presets)) throw new Error('presets must be an array.');
+  return file.presets.map((item, index) => {
+    const path = `presets[${index}]`;
+    const preset = expectObject(item, path);
+    if (typeof preset.name !== 'string' || preset.name.trim() === '') throw new Error(`${path}.name must be a non-empty string.`);
+    return { name: preset.name.trim(), ...readSnapshot(preset, version, path) };
+  });
+}
+
+export function loadUserPresets(): FractalPreset[] {
+  const text = readLocalStorage(PRESETS_STORAGE_KEY);
+  if (text === null) return [];
+  try {
+    return parsePresetFile(text);
+  } catch (error) {
+    console.warn('Ignoring stored presets:', error);
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: FractalPreset[]): void {
+  writeLocalStorage(PRESETS_STORAGE_KEY, serializePresetFile(presets));
+}
+
+function readAutoRotateSettings(value: unknown, path: string): AutoRotateSettings {
+  const autoRotate = expectObject(value, path);
+  return {
+    speed: expectNumber(autoRotate.speed, `${path}.speed`, AUTO_ROTATE_SPEED_RANGE),
+    axisWeights: expectVector(autoRotate.axisWeights, `${path}.axisWeights`, AUTO_ROTATE_AXIS_WEIGHT_RANGE),
+  };
+}
+
+function readCameraProjection(value: unknown, path: string): CameraProjection {
+  if (value !== 'perspective' && value !== 'orthographic') throw new Error(`${path} must be 'perspective' or 'orthographic'.`);
+  return value;
+}
+
+// The last session's settings, restored on load when the URL carries none.
+// Viewer settings missing from older autosaves take their defaults.
+export function loadAutosave(): AutosavedSession | null {
+  const text = readLocalStorage(AUTOSAVE_STORAGE_KEY);
+  if (text === null) return null;
+  try {
+    const data = expectObject(JSON.parse(text), 'autosave');
+    return {
+      ...readSnapshot(data.snapshot, expectVersion(data.version), 'autosave.snapshot'),
+      autoRotateSettings: data.autoRotateSettings === undefined
+        ? DEFAULT_AUTO_ROTATE_SETTINGS
+        : readAutoRotateSettings(data.autoRotateSettings, 'autosave.autoRotateSettings'),
+      cameraProjection: data.cameraProjection === undefined
+        ? 'perspective'
+        : readCameraProjection(data.cameraProjection, 'autosave.cameraProjection'),
+    };
+  } catch (error) {
+    console.warn('Ignoring the autosaved session:', error);
+    return null;
+  }
+}
+
+export function saveAutosave(session: AutosavedSession): void {
+  writeLocalStorage(AUTOSAVE_STORAGE_KEY, JSON.stringify({
+    version: PRESET_SCHEMA_VERSION,
+    snapshot: toSnapshotJson(session),
+    autoRotateSettings: session.autoRotateSettings,
+    cameraProjection: session.cameraProjection,
+  }));
+}
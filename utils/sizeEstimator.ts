@@ -0,0 +1,45 @@
+import type { FractalGenerationParams } from '../types';
+import { getFractalDefinition } from './fractalRegistry';
+
+export interface FractalSizeEstimate {
+  vertices: number;
+  faces: number;
+  instances?: number; // Set for an instanced preview, whose bytes cover the instances only
+  bytes: number; // Approximate peak memory of generating and previewing the mesh
+}
+
+// Rough per-element cost while the worker builds the mesh (growable typed arrays with slack,
+// quantized welding keys and hash slots) plus the transferred arrays and the preview's GPU-side copies.
+const BYTES_PER_VERTEX = 120;
+const BYTES_PER_FACE = 60;
+// The transferred centre and scale plus the instance matrix uploaded for the preview.
+const BYTES_PER_INSTANCE = 80;
+
+// With `instanced`, types that support it are estimated for the instanced preview; vertices and
+// faces still describe the full mesh that exports expand to.
+export function estimateFractalSize(params: FractalGenerationParams, instanced = false): FractalSizeEstimate {
+  const definition = getFractalDefinition(params.type);
+  const { vertices, faces } = definition.countElements(params);
+  if (instanced && definition.instancing) {
+    const instances = definition.instancing.countInstances(params);
+    return { vertices, faces, instances, bytes: instances * BYTES_PER_INSTANCE };
+  }
+  return { vertices, faces, bytes: vertices * BYTES_PER_VERTEX + faces * BYTES_PER_FACE };
+}
+
+const countFormatter = new Intl.NumberFormat('ja-JP', { notation: 'compact', maximumFractionDigits: 1 });
+
+export function formatCount(count: number): string {
+  return countFormatter.format(count);
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 && unit > 0 ? 1 : 0)} ${units[unit]}`;
+}
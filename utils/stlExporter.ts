@@ -0,0 +1,98 @@
+import type { FractalMesh, FractalTypeId, StlFormat } from '../types';
+import { buildExportFileName, downloadBlob } from './helpers';
+
+const STL_HEADER_BYTES = 80;
+const STL_TRIANGLE_BYTES = 50; // normal + 3 vertices (12 floats) + 2-byte attribute count
+
+type Point = [number, number, number];
+
+function getPoint(positions: Float32Array, vertexIndex: number): Point {
+  return [positions[vertexIndex * 3], positions[vertexIndex * 3 + 1], positions[vertexIndex * 3 + 2]];
+}
+
+// Unit normal of the triangle (a, b, c) following its counter-clockwise winding.
+// Degenerate triangles get a zero normal, which slicers recompute on import.
+function computeFacetNormal(a: Point, b: Point, c: Point): Point {
+  const ux = b[0] - a[0], uy = b[1] - a[1], uz = b[2] - a[2];
+  const vx = c[0] - a[0], vy = c[1] - a[1], vz = c[2] - a[2];
+  const nx = uy * vz - uz * vy;
+  const ny = uz * vx - ux * vz;
+  const nz = ux * vy - uy * vx;
+  const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  if (length === 0) return [0, 0, 0];
+  return [nx / length, ny / length, nz / length];
+}
+
+function buildBinaryStl(header: string, mesh: FractalMesh): ArrayBuffer {
+  const faceCount = mesh.indices.length / 3;
+  const buffer = new ArrayBuffer(STL_HEADER_BYTES + 4 + faceCount * STL_TRIANGLE_BYTES);
+  const view = new DataView(buffer);
+
+  // Header is free-form ASCII; it must not start with "solid" or some readers treat the file as ASCII STL.
+  for (let i = 0; i < Math.min(header.length, STL_HEADER_BYTES); i++) {
+    view.setUint8(i, header.charCodeAt(i) & 0x7f);
+  }
+  view.setUint32(STL_HEADER_BYTES, faceCount, true);
+
+  let offset = STL_HEADER_BYTES + 4;
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const a = getPoint(mesh.positions, mesh.indices[i]);
+    const b = getPoint(mesh.positions, mesh.indices[i + 1]);
+    const c = getPoint(mesh.positions, mesh.indices[i + 2]);
+    const normal = computeFacetNormal(a, b, c);
+    for (const value of [...normal, ...a, ...b, ...c]) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  }
+  return buffer;
+}
+
+function formatPoint(p: Point): string {
+  return `${p[0].toExponential(6)} ${p[1].toExponential(6)} ${p[2].toExponential(6)}`;
+}
+
+function buildAsciiStl(solidName: string, mesh: FractalMesh): string {
+  const lines: string[] = [`solid ${solidName}`];
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const a = getPoint(mesh.positions, mesh.indices[i]);
+    const b = getPoint(mesh.positions, mesh.indices[i + 1]);
+    const c = getPoint(mesh.positions, mesh.indices[i + 2]);
+    lines.push(
+      `  facet normal ${formatPoint(computeFacetNormal(a, b, c))}`,
+      '    outer loop',
+      `      vertex ${formatPoint(a)}`,
+      `      vertex ${formatPoint(b)}`,
+      `      vertex ${formatPoint(c)}`,
+      '    endloop',
+      '  endfacet'
+    );
+  }
+  lines.push(`endsolid ${solidName}`, '');
+  return lines.join('\n');
+}
+
+export function exportToStlFile(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  mesh: FractalMesh,
+  format: StlFormat
+): void {
+  if (!mesh.positions.length || !mesh.indices.length) {
+    console.error("No data to export.");
+    return;
+  }
+
+  const fileName = buildExportFileName(fractalType, level, size, 'stl');
+  if (format === 'binary') {
+    const header = `${fractalType} level ${level} size ${size.toFixed(1)} - 3D Fractal Explorer`;
+    const blob = new Blob([buildBinaryStl(header, mesh)], { type: 'model/stl' });
+    downloadBlob(blob, fileName);
+  } else {
+    const blob = new Blob([buildAsciiStl(fractalType, mesh)], { type: 'model/stl;charset=utf-8' });
+    downloadBlob(blob, fileName);
+  }
+}
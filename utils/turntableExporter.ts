@@ -0,0 +1,70 @@
+import type { FractalTypeId, ImageRenderOptions, TurntableSettings, Vector3D } from '../types';
+import { buildExportFileName } from './helpers';
+import { openExportSink } from './exportSink';
+import { createImageRenderer } from './imageRenderer';
+import type { ViewCamera } from './cameraViews';
+import { createZipWriter } from './zipWriter';
+
+const THREE = window.THREE;
+
+// Places `camera` at frame `frame` of the orbit: the starting offset from the target, and the up
+// vector with it, rotated about the world axis, so orbits over the poles do not flip.
+function placeOrbitCamera(camera: ViewCamera, start: ViewCamera, target: THREE.Vector3, { axis, degrees, frames }: TurntableSettings, frame: number) {
+  const axisVector = new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+  const angle = (degrees * Math.PI / 180) * frame / frames;
+  const offset = start.position.clone().sub(target).applyAxisAngle(axisVector, angle);
+  camera.position.copy(target).add(offset);
+  camera.up.copy(start.up).applyAxisAngle(axisVector, angle);
+  camera.lookAt(target);
+}
+
+// Renders an orbit around `target` offscreen and streams it as a numbered PNG sequence in a zip.
+// Frames depend only on their index, so a full 360° turn loops without a repeated frame.
+// Must be called before the first await of a click handler (see openExportSink).
+export async function exportTurntable(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  scene: THREE.Scene,
+  camera: ViewCamera,
+  target: Vector3D,
+  settings: TurntableSettings,
+  renderOptions: ImageRenderOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  // The orbit starts from the view at the click. The preview keeps moving meanwhile (damping and the
+  // animation loop update the live camera and target), so both are copied before anything is awaited.
+  const startCamera = camera.clone();
+  const orbitTarget = new THREE.Vector3(target.x, target.y, target.z);
+  const sink = await openExportSink({
+    fileName: buildExportFileName(fractalType, level, size, 'turntable.zip'),
+    mimeType: 'application/zip',
+    description: 'PNG sequence (zip)',
+    extension: '.zip',
+  });
+  const zip = createZipWriter(sink);
+  const imageRenderer = createImageRenderer(scene);
+  const frameCamera = startCamera.clone();
+  const digits = Math.max(4, String(settings.frames).length);
+
+  try {
+    for (let frame = 0; frame < settings.frames; frame++) {
+      placeOrbitCamera(frameCamera, startCamera, orbitTarget, settings, frame);
+      const blob = await imageRenderer.render(
+        frameCamera,
+        renderOptions,
+        tileFraction => onProgress?.((frame + tileFraction) / settings.frames),
+        signal
+      );
+      await zip.addFile(`frame_${String(frame + 1).padStart(digits, '0')}.png`, new Uint8Array(await blob.arrayBuffer()));
+    }
+    signal?.throwIfAborted();
+    await zip.close();
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  } finally {
+    imageRenderer.dispose();
+  }
+}
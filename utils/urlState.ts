@@ -0,0 +1,234 @@
+import {
+  type AutoRotateSettings,
+  type CameraView,
+  type ColoringMode,
+  type ColoringSettings,
+  type FractalParameters,
+  type GradientStop,
+  type IfsSettings,
+  type LightSettings,
+  type MaterialSettings,
+  type MaterialSide,
+  type NumericRange,
+  type Vector3D,
+} from '../types';
+import {
+  AUTO_ROTATE_AXIS_WEIGHT_RANGE,
+  AUTO_ROTATE_SPEED_RANGE,
+  DEFAULT_AUTO_ROTATE_SETTINGS,
+  DEFAULT_FRACTAL_PARAMS,
+  DEFAULT_LIGHT_SETTINGS,
+  DEFAULT_MATERIAL_SETTINGS,
+  ESCAPE_TIME_RANGES,
+  FRACTAL_SIZE_RANGE,
+  GRADIENT_MAX_STOPS,
+  GRADIENT_MIN_STOPS,
+  IFS_MAX_TRANSFORMS,
+  LIGHT_INTENSITY_RANGES,
+  LIGHT_POSITION_RANGE,
+  MATERIAL_RANGES,
+} from '../constants';
+import { clampFractalLevel, getFractalDefinition, getFractalDefinitions } from './fractalRegistry';
+import { isIfsPrimitive } from './fractalGeneration';
+
+// Everything a shared link restores.
+export interface ShareableState {
+  fractalParams: FractalParameters;
+  lightSettings: LightSettings;
+  materialSettings: MaterialSettings;
+  autoRotate: boolean;
+  autoRotateSettings: AutoRotateSettings;
+  camera: CameraView;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 1e4) / 1e4);
+const formatVector = ({ x, y, z }: Vector3D) => [x, y, z].map(formatNumber).join(',');
+
+
+// Transforms are written as primitive;sx,sy,sz,rx,ry,rz,tx,ty,tz;... to keep links short.
+function formatIfs({ primitive, transforms }: IfsSettings): string {
+  return [primitive, ...transforms.map(t => [t.scale, t.rotation, t.translation].map(formatVector).join(','))].join(';');
+}
+
+// Stops are written as position,RRGGBB;position,RRGGBB;...
+function formatGradient(gradient: GradientStop[]): string {
+  return gradient.map(stop => `${formatNumber(stop.position)},${stop.color.replace('#', '')}`).join(';');
+}
+
+// Serializes the state into a URL hash (without the leading '#'). The IFS and escape-time settings
+// are only written for the types that use them, the coloring only when it is not a single color.
+export function encodeShareableState({
+  fractalParams, lightSettings, materialSettings, autoRotate, autoRotateSettings, camera,
+}: ShareableState): string {
+  const query = new URLSearchParams();
+  query.set('type', fractalParams.type);
+  query.set('level', String(fractalParams.level));
+  query.set('size', formatNumber(fractalParams.size));
+  query.set('color', fractalParams.color.replace('#', ''));
+  query.set('surface', fractalParams.surface);
+  if (fractalParams.coloring.mode !== 'solid') {
+    query.set('coloring', fractalParams.coloring.mode);
+    if (fractalParams.coloring.mode === 'axis') query.set('axis', fractalParams.coloring.axis);
+    query.set('gradient', formatGradient(fractalParams.coloring.gradient));
+  }
+  const parameterSection = getFractalDefinition(fractalParams.type).parameterSection;
+  if (parameterSection?.kind === 'ifs') query.set('ifs', formatIfs(fractalParams.ifs));
+  if (parameterSection?.kind === 'escapeTime') {
+    query.set('power', formatNumber(fractalParams.escapeTime.power));
+    query.set('boxScale', formatNumber(fractalParams.escapeTime.boxScale));
+    query.set('resolution', formatNumber(fractalParams.escapeTime.resolution));
+  }
+  query.set('ambient', formatNumber(lightSettings.ambientIntensity));
+  query.set('directional', formatNumber(lightSettings.directionalIntensity));
+  query.set('light', formatVector(lightSettings.directionalPosition));
+  query.set('fill', formatNumber(lightSettings.fillIntensity));
+  query.set('hemisphere', formatNumber(lightSettings.hemisphereIntensity));
+  query.set('metalness', formatNumber(materialSettings.metalness));
+  query.set('roughness', formatNumber(materialSettings.roughness));
+  query.set('opacity', formatNumber(materialSettings.opacity));
+  query.set('emissive', materialSettings.emissive.replace('#', ''));
+  query.set('flat', materialSettings.flatShading ? '1' : '0');
+  query.set('wireframe', materialSettings.wireframe ? '1' : '0');
+  query.set('side', materialSettings.side);
+  query.set('rotate', autoRotate ? '1' : '0');
+  query.set('rotateSpeed', formatNumber(autoRotateSettings.speed));
+  query.set('rotateAxes', formatVector(autoRotateSettings.axisWeights));
+  query.set('camera', formatVector(camera.position));
+  query.set('target', formatVector(camera.target));
+  if (camera.projection === 'orthographic') {
+    query.set('projection', camera.projection);
+    query.set('orthoHeight', formatNumber(camera.orthographicHalfHeight));
+  }
+  // Commas and semicolons are valid in a fragment, so they are left readable
+  return query.toString().replace(/%2C/g, ',').replace(/%3B/g, ';');
+}
+
+function parseNumbers(text: string | null, count: number): number[] | null {
+  if (text === null) return null;
+  const values = text.split(',').map(Number);
+  return values.length === count && values.every(Number.isFinite) ? values : null;
+}
+
+function readNumber(query: URLSearchParams, key: string, range: NumericRange, fallback: number): number {
+  const [value] = parseNumbers(query.get(key), 1) ?? [fallback];
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+function readVector(query: URLSearchParams, key: string, range?: NumericRange): Vector3D | null {
+  const values = parseNumbers(query.get(key), 3);
+  if (!values) return null;
+  const [x, y, z] = range ? values.map(v => Math.min(range.max, Math.max(range.min, v))) : values;
+  return { x, y, z };
+}
+
+function parseIfs(text: string | null): IfsSettings | null {
+  if (text === null) return null;
+  const [primitive, ...transformTexts] = text.split(';');
+  if (!isIfsPrimitive(primitive) || transformTexts.length < 1 || transformTexts.length > IFS_MAX_TRANSFORMS) return null;
+  const transforms = transformTexts.map(transformText => parseNumbers(transformText, 9));
+  if (transforms.some(values => values === null)) return null;
+  return {
+    primitive,
+    transforms: (transforms as number[][]).map(v => ({
+      scale: { x: v[0], y: v[1], z: v[2] },
+      rotation: { x: v[3], y: v[4], z: v[5] },
+      translation: { x: v[6], y: v[7], z: v[8] },
+    })),
+  };
+}
+
+function parseGradient(text: string | null): GradientStop[] | null {
+  if (text === null) return null;
+  const stopTexts = text.split(';');
+  if (stopTexts.length < GRADIENT_MIN_STOPS || stopTexts.length > GRADIENT_MAX_STOPS) return null;
+  const stops = stopTexts.map(stopText => {
+    const [position, color] = stopText.split(',');
+    return Number.isFinite(Number(position)) && /^[0-9a-f]{6}$/i.test(color ?? '')
+      ? { position: Math.min(1, Math.max(0, Number(position))), color: `#${color}` }
+      : null;
+  });
+  return stops.every(stop => stop !== null) ? (stops as GradientStop[]) : null;
+}
+
+function parseColoring(query: URLSearchParams, fallback: ColoringSettings): ColoringSettings {
+  const mode = query.get('coloring') as ColoringMode | null;
+  if (mode !== 'depth' && mode !== 'branch' && mode !== 'axis' && mode !== 'radial') return fallback;
+  const axis = query.get('axis');
+  return {
+    mode,
+    axis: axis === 'x' || axis === 'y' || axis === 'z' ? axis : fallback.axis,
+    gradient: parseGradient(query.get('gradient')) ?? fallback.gradient,
+  };
+}
+
+// Links without a usable orthographic height show the view in perspective.
+function readCameraView(query: URLSearchParams, position: Vector3D, target: Vector3D): CameraView {
+  const [orthographicHalfHeight] = parseNumbers(query.get('orthoHeight'), 1) ?? [0];
+  return query.get('projection') === 'orthographic' && orthographicHalfHeight > 0
+    ? { projection: 'orthographic', position, target, orthographicHalfHeight }
+    : { projection: 'perspective', position, target, orthographicHalfHeight: 0 };
+}
+
+// Restores what a shared link carries. Unknown types, malformed values and missing keys fall back to
+// the defaults, numbers are clamped to their slider ranges and the level to the type's range.
+// Returns an empty object for an empty hash so that nothing is overridden.
+export function decodeShareableState(hash: string): Partial<ShareableState> {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  if ([...query.keys()].length === 0) return {};
+
+  const definition = getFractalDefinitions().find(d => d.id === query.get('type'));
+  const fractalParams = { ...DEFAULT_FRACTAL_PARAMS };
+  if (definition) {
+    const [level] = parseNumbers(query.get('level'), 1) ?? [definition.defaultLevel ?? fractalParams.level];
+    const color = query.get('color');
+    const surface = query.get('surface');
+    Object.assign(fractalParams, {
+      type: definition.id,
+      level: clampFractalLevel(definition, Math.round(level)),
+      size: readNumber(query, 'size', FRACTAL_SIZE_RANGE, definition.defaultSize),
+      color: color && /^[0-9a-f]{6}$/i.test(color) ? `#${color}` : fractalParams.color,
+      surface: surface === 'raw' || surface === 'outer' ? surface : fractalParams.surface,
+      coloring: parseColoring(query, fractalParams.coloring),
+      ifs: parseIfs(query.get('ifs')) ?? fractalParams.ifs,
+      escapeTime: {
+        power: Math.round(readNumber(query, 'power', ESCAPE_TIME_RANGES.power, fractalParams.escapeTime.power)),
+        boxScale: readNumber(query, 'boxScale', ESCAPE_TIME_RANGES.boxScale, fractalParams.escapeTime.boxScale),
+        resolution: Math.round(readNumber(query, 'resolution', ESCAPE_TIME_RANGES.resolution, fractalParams.escapeTime.resolution)),
+      },
+    });
+  }
+
+  const lightSettings: LightSettings = {
+    ambientIntensity: readNumber(query, 'ambient', LIGHT_INTENSITY_RANGES.ambientIntensity, DEFAULT_LIGHT_SETTINGS.ambientIntensity),
+    directionalIntensity: readNumber(query, 'directional', LIGHT_INTENSITY_RANGES.directionalIntensity, DEFAULT_LIGHT_SETTINGS.directionalIntensity),
+    directionalPosition: readVector(query, 'light', LIGHT_POSITION_RANGE) ?? DEFAULT_LIGHT_SETTINGS.directionalPosition,
+    fillIntensity: readNumber(query, 'fill', LIGHT_INTENSITY_RANGES.fillIntensity, DEFAULT_LIGHT_SETTINGS.fillIntensity),
+    hemisphereIntensity: readNumber(query, 'hemisphere', LIGHT_INTENSITY_RANGES.hemisphereIntensity, DEFAULT_LIGHT_SETTINGS.hemisphereIntensity),
+  };
+
+  const emissive = query.get('emissive');
+  const side = query.get('side') as MaterialSide | null;
+  const materialSettings: MaterialSettings = {
+    metalness: readNumber(query, 'metalness', MATERIAL_RANGES.metalness, DEFAULT_MATERIAL_SETTINGS.metalness),
+    roughness: readNumber(query, 'roughness', MATERIAL_RANGES.roughness, DEFAULT_MATERIAL_SETTINGS.roughness),
+    opacity: readNumber(query, 'opacity', MATERIAL_RANGES.opacity, DEFAULT_MATERIAL_SETTINGS.opacity),
+    emissive: emissive && /^[0-9a-f]{6}$/i.test(emissive) ? `#${emissive}` : DEFAULT_MATERIAL_SETTINGS.emissive,
+    flatShading: query.has('flat') ? query.get('flat') === '1' : DEFAULT_MATERIAL_SETTINGS.flatShading,
+    wireframe: query.has('wireframe') ? query.get('wireframe') === '1' : DEFAULT_MATERIAL_SETTINGS.wireframe,
+    side: side === 'auto' || side === 'front' || side === 'back' || side === 'double' ? side : DEFAULT_MATERIAL_SETTINGS.side,
+  };
+
+  const position = readVector(query, 'camera');
+  const target = readVector(query, 'target');
+  return {
+    fractalParams,
+    lightSettings,
+    materialSettings,
+    autoRotate: query.get('rotate') === '1',
+    autoRotateSettings: {
+      speed: readNumber(query, 'rotateSpeed', AUTO_ROTATE_SPEED_RANGE, DEFAULT_AUTO_ROTATE_SETTINGS.speed),
+      axisWeights: readVector(query, 'rotateAxes', AUTO_ROTATE_AXIS_WEIGHT_RANGE) ?? DEFAULT_AUTO_ROTATE_SETTINGS.axisWeights,
+    },
+    ...(position && target ? { camera: readCameraView(query, position, target) } : {}),
+  };
+}
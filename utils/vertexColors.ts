@@ -0,0 +1,194 @@
+import type { ColoringSettings, FractalInstances, FractalMesh, GradientStop } from '../types';
+import { hexToRgb } from './helpers';
+
+// Colors the gradient is resolved to before values are looked up in it
+const GRADIENT_TABLE_SIZE = 256;
+const AXIS_INDEX = { x: 0, y: 1, z: 2 } as const;
+
+export interface ColoredMesh {
+  mesh: FractalMesh;
+  colors: Uint8Array; // r, g, b per vertex of `mesh`, 0-255
+}
+
+interface BranchSplit {
+  mesh: FractalMesh;
+  vertexBranches: Uint16Array;
+}
+
+// Kept as long as the source mesh, so repeated gradient edits and exports reuse one split
+const branchSplitCache = new WeakMap<FractalMesh, BranchSplit>();
+
+// Samples the gradient at evenly spaced positions. Values before the first stop or after the last take its color.
+function buildGradientTable(gradient: GradientStop[]): Uint8Array {
+  const stops = [...gradient]
+    .sort((a, b) => a.position - b.position)
+    .map(stop => ({ position: stop.position, rgb: hexToRgb(stop.color) }));
+  const table = new Uint8Array(GRADIENT_TABLE_SIZE * 3);
+  let upper = 0;
+  for (let i = 0; i < GRADIENT_TABLE_SIZE; i++) {
+    const t = i / (GRADIENT_TABLE_SIZE - 1);
+    while (upper < stops.length && stops[upper].position < t) upper++;
+    const from = stops[Math.max(0, upper - 1)];
+    const to = stops[Math.min(stops.length - 1, upper)];
+    const span = to.position - from.position;
+    const fraction = span > 0 ? (t - from.position) / span : 0;
+    for (let channel = 0; channel < 3; channel++) {
+      table[i * 3 + channel] = Math.round(from.rgb[channel] + (to.rgb[channel] - from.rgb[channel]) * fraction);
+    }
+  }
+  return table;
+}
+
+function fillColor(count: number, rgb: ArrayLike<number>): Uint8Array {
+  const colors = new Uint8Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    colors[i * 3] = rgb[0];
+    colors[i * 3 + 1] = rgb[1];
+    colors[i * 3 + 2] = rgb[2];
+  }
+  return colors;
+}
+
+// Rescales the values to 0-1 over their own range and looks each one up in the gradient.
+function mapThroughGradient(values: Float32Array, gradient: GradientStop[]): Uint8Array {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  const scale = max > min ? (GRADIENT_TABLE_SIZE - 1) / (max - min) : 0;
+  const table = buildGradientTable(gradient);
+  const colors = new Uint8Array(values.length * 3);
+  for (let i = 0; i < values.length; i++) {
+    const entry = Math.round((values[i] - min) * scale) * 3;
+    colors[i * 3] = table[entry];
+    colors[i * 3 + 1] = table[entry + 1];
+    colors[i * 3 + 2] = table[entry + 2];
+  }
+  return colors;
+}
+
+// Values along an axis, or distances from the centre of the bounding box, of `count` points.
+function computePositionValues(points: Float32Array, stride: number, count: number, coloring: ColoringSettings): Float32Array {
+  const values = new Float32Array(count);
+  if (coloring.mode === 'axis') {
+    const axis = AXIS_INDEX[coloring.axis];
+    for (let i = 0; i < count; i++) values[i] = points[i * stride + axis];
+    return values;
+  }
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], points[i * stride + axis]);
+      max[axis] = Math.max(max[axis], points[i * stride + axis]);
+    }
+  }
+  const [cx, cy, cz] = [0, 1, 2].map(axis => (min[axis] + max[axis]) / 2);
+  for (let i = 0; i < count; i++) {
+    values[i] = Math.hypot(points[i * stride] - cx, points[i * stride + 1] - cy, points[i * stride + 2] - cz);
+  }
+  return values;
+}
+
+// Gives every top-level branch its own copies of the vertices it shares with earlier branches, so that
+// branch colors do not blend across the seams. Faces keep their order, so branchFaceOffsets still apply.
+function splitVerticesByBranch(mesh: FractalMesh): BranchSplit {
+  const cached = branchSplitCache.get(mesh);
+  if (cached) return cached;
+
+  const { positions, indices, vertexDepths, branchFaceOffsets } = mesh;
+  const vertexCount = positions.length / 3;
+  const owner = new Int32Array(vertexCount).fill(-1);
+  // The copy made for the branch being processed; branches are contiguous, so one slot per vertex suffices
+  const copyBranch = new Int32Array(vertexCount).fill(-1);
+  const copyIndex = new Uint32Array(vertexCount);
+  const copySources: number[] = [];
+  const copyBranches: number[] = [];
+  const splitIndices = new Uint32Array(indices.length);
+
+  let branch = 0;
+  for (let face = 0; face < indices.length / 3; face++) {
+    while (branch + 1 < branchFaceOffsets.length && branchFaceOffsets[branch + 1] <= face) branch++;
+    for (let corner = face * 3; corner < face * 3 + 3; corner++) {
+      const v = indices[corner];
+      if (owner[v] === -1) owner[v] = branch;
+      if (owner[v] === branch) {
+        splitIndices[corner] = v;
+        continue;
+      }
+      if (copyBranch[v] !== branch) {
+        copyBranch[v] = branch;
+        copyIndex[v] = vertexCount + copySources.length;
+        copySources.push(v);
+        copyBranches.push(branch);
+      }
+      splitIndices[corner] = copyIndex[v];
+    }
+  }
+
+  const totalVertices = vertexCount + copySources.length;
+  const splitPositions = new Float32Array(totalVertices * 3);
+  const splitDepths = new Uint8Array(totalVertices);
+  const vertexBranches = new Uint16Array(totalVertices);
+  splitPositions.set(positions);
+  splitDepths.set(vertexDepths);
+  for (let v = 0; v < vertexCount; v++) vertexBranches[v] = Math.max(0, owner[v]); // Unused vertices go to branch 0
+  copySources.forEach((source, i) => {
+    const target = vertexCount + i;
+    splitPositions.set(positions.subarray(source * 3, source * 3 + 3), target * 3);
+    splitDepths[target] = vertexDepths[source];
+    vertexBranches[target] = copyBranches[i];
+  });
+
+  const split = {
+    mesh: { positions: splitPositions, indices: splitIndices, vertexDepths: splitDepths, branchFaceOffsets },
+    vertexBranches,
+  };
+  branchSplitCache.set(mesh, split);
+  return split;
+}
+
+// Per-vertex colors for the coloring; 'solid' repeats the base color. Branch coloring returns a mesh with
+// the shared vertices split between branches, which must be used in place of `mesh` with the colors.
+export function colorizeMesh(mesh: FractalMesh, coloring: ColoringSettings, baseColor: string): ColoredMesh {
+  const vertexCount = mesh.positions.length / 3;
+  switch (coloring.mode) {
+    case 'solid':
+      return { mesh, colors: fillColor(vertexCount, hexToRgb(baseColor)) };
+    case 'depth':
+      return { mesh, colors: mapThroughGradient(Float32Array.from(mesh.vertexDepths), coloring.gradient) };
+    case 'branch': {
+      const split = splitVerticesByBranch(mesh);
+      return { mesh: split.mesh, colors: mapThroughGradient(Float32Array.from(split.vertexBranches), coloring.gradient) };
+    }
+    default:
+      return { mesh, colors: mapThroughGradient(computePositionValues(mesh.positions, 3, vertexCount, coloring), coloring.gradient) };
+  }
+}
+
+// The recursion depth varies between the vertices of a single leaf, so depth coloring cannot be shown
+// with one color per instance; while it is selected the preview uses the full mesh.
+export function needsFullMeshPreview(coloring: ColoringSettings): boolean {
+  return coloring.mode === 'depth';
+}
+
+// Per-leaf colors for the instanced preview, or null for 'solid' and for the modes that need the
+// full mesh (see needsFullMeshPreview).
+export function computeInstanceColors(instances: FractalInstances, coloring: ColoringSettings): Uint8Array | null {
+  const { transforms, branchInstanceOffsets } = instances;
+  const count = transforms.length / 4;
+  switch (coloring.mode) {
+    case 'solid':
+    case 'depth':
+      return null;
+    case 'branch': {
+      const values = new Float32Array(count);
+      branchInstanceOffsets.forEach((start, branch) => values.fill(branch, start, branchInstanceOffsets[branch + 1] ?? count));
+      return mapThroughGradient(values, coloring.gradient);
+    }
+    default:
+      return mapThroughGradient(computePositionValues(transforms, 4, count, coloring), coloring.gradient);
+  }
+}
@@ -0,0 +1,87 @@
+import type { FractalTypeId, VoxelGrid } from '../types';
+import { getFractalDefinition } from './fractalRegistry';
+import { buildExportFileName, downloadBlob, hexToRgb } from './helpers';
+
+// MagicaVoxel models are limited to 256 voxels along each axis.
+export const VOX_MAX_DIMENSION = 256;
+const VOX_VERSION = 150;
+
+// Lattice voxelizers fix the grid (e.g. 3^level for the Menger sponge); the others are sampled at the chosen resolution.
+// Returns null for types that cannot be voxelized.
+export function getVoxGridDimension(fractalType: FractalTypeId, level: number, resolution: number): number | null {
+  const { voxelizer } = getFractalDefinition(fractalType);
+  if (!voxelizer) return null;
+  return voxelizer.kind === 'lattice' ? voxelizer.dimension(level) : resolution;
+}
+
+function writeChunkHeader(view: DataView, offset: number, id: string, contentBytes: number, childrenBytes: number): number {
+  for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i));
+  view.setInt32(offset + 4, contentBytes, true);
+  view.setInt32(offset + 8, childrenBytes, true);
+  return offset + 12;
+}
+
+function buildVoxFile(grid: VoxelGrid, color: string): ArrayBuffer {
+  const { size, voxels } = grid;
+  let filledCount = 0;
+  for (let i = 0; i < voxels.length; i++) filledCount += voxels[i];
+
+  const sizeContentBytes = 12;
+  const xyziContentBytes = 4 + filledCount * 4;
+  const rgbaContentBytes = 256 * 4;
+  const childrenBytes = (12 + sizeContentBytes) + (12 + xyziContentBytes) + (12 + rgbaContentBytes);
+  const buffer = new ArrayBuffer(8 + 12 + childrenBytes);
+  const view = new DataView(buffer);
+
+  'VOX '.split('').forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+  view.setInt32(4, VOX_VERSION, true);
+  let offset = writeChunkHeader(view, 8, 'MAIN', 0, childrenBytes);
+
+  // MagicaVoxel is Z-up: three.js (x, y, z) maps to vox (x, size - 1 - z, y).
+  offset = writeChunkHeader(view, offset, 'SIZE', sizeContentBytes, 0);
+  view.setInt32(offset, size, true);
+  view.setInt32(offset + 4, size, true);
+  view.setInt32(offset + 8, size, true);
+  offset += sizeContentBytes;
+
+  offset = writeChunkHeader(view, offset, 'XYZI', xyziContentBytes, 0);
+  view.setInt32(offset, filledCount, true);
+  offset += 4;
+  for (let z = 0; z < size; z++) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!voxels[x + size * (y + size * z)]) continue;
+        view.setUint8(offset, x);
+        view.setUint8(offset + 1, size - 1 - z);
+        view.setUint8(offset + 2, y);
+        view.setUint8(offset + 3, 1); // palette index 1 = fractal color
+        offset += 4;
+      }
+    }
+  }
+
+  // Palette entry i holds color index i + 1, so the fractal color goes first.
+  offset = writeChunkHeader(view, offset, 'RGBA', rgbaContentBytes, 0);
+  const [r, g, b] = hexToRgb(color);
+  view.setUint8(offset, r);
+  view.setUint8(offset + 1, g);
+  view.setUint8(offset + 2, b);
+  view.setUint8(offset + 3, 255);
+
+  return buffer;
+}
+
+// Writes a grid from rasterizeFractal (see voxelRasterizer.ts) as a single-model .vox file.
+export function exportToVoxFile(
+  fractalType: FractalTypeId,
+  level: number,
+  size: number,
+  color: string,
+  grid: VoxelGrid
+): void {
+  if (grid.size > VOX_MAX_DIMENSION) {
+    throw new Error(`Voxel grid ${grid.size}^3 exceeds the .vox limit of ${VOX_MAX_DIMENSION} per axis.`);
+  }
+  const blob = new Blob([buildVoxFile(grid, color)], { type: 'application/octet-stream' });
+  downloadBlob(blob, buildExportFileName(fractalType, level, size, 'vox'));
+}
@@ -0,0 +1,168 @@
+import type { ExportSink } from './exportSink';
+
+// Minimal streaming ZIP writer (stored entries, no compression).
+// Entries added whole carry their CRC and sizes in the local header. Entries written chunk by chunk
+// cannot know them up front, so theirs follow the data in a data descriptor.
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20; // 2.0: data descriptors
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAMES = 0x0800;
+const MAX_ZIP32_BYTES = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// DOS date/time fields for the current local time.
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  nameBytes: Uint8Array;
+  flags: number;
+  offset: number;
+  crc: number;
+  size: number;
+}
+
+export interface ZipWriter {
+  addFile(name: string, data: string | Uint8Array): Promise<void>; // A whole entry at once
+  startFile(name: string): Promise<void>; // A streamed entry: startFile, write..., endFile
+  write(chunk: string | Uint8Array): Promise<void>;
+  endFile(): Promise<void>;
+  close(): Promise<void>; // Writes the central directory and closes the underlying sink
+}
+
+// CRC and sizes are zero for streamed entries, which give them in the data descriptor instead.
+function buildLocalFileHeader(entry: ZipEntry, time: number, date: number): Uint8Array {
+  const header = new Uint8Array(30 + entry.nameBytes.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+  view.setUint16(4, ZIP_VERSION, true);
+  view.setUint16(6, entry.flags, true);
+  view.setUint16(8, 0, true); // stored
+  view.setUint16(10, time, true);
+  view.setUint16(12, date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, entry.nameBytes.length, true);
+  header.set(entry.nameBytes, 30);
+  return header;
+}
+
+export function createZipWriter(sink: ExportSink): ZipWriter {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let current: ZipEntry | null = null;
+  let offset = 0;
+
+  const writeBytes = async (bytes: Uint8Array) => {
+    if (offset + bytes.length > MAX_ZIP32_BYTES) {
+      throw new Error('ZIP archive exceeds 4 GiB, which requires ZIP64.');
+    }
+    await sink.write(bytes);
+    offset += bytes.length;
+  };
+
+  return {
+    async addFile(name, data) {
+      if (current) throw new Error('Previous ZIP entry was not ended.');
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      const entry = { nameBytes: encoder.encode(name), flags: FLAG_UTF8_NAMES, offset, crc: updateCrc32(0, bytes), size: bytes.length };
+      await writeBytes(buildLocalFileHeader(entry, time, date));
+      await writeBytes(bytes);
+      entries.push(entry);
+    },
+
+    async startFile(name) {
+      if (current) throw new Error('Previous ZIP entry was not ended.');
+      current = { nameBytes: encoder.encode(name), flags: FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAMES, offset, crc: 0, size: 0 };
+      await writeBytes(buildLocalFileHeader(current, time, date));
+    },
+
+    async write(chunk) {
+      if (!current) throw new Error('No ZIP entry started.');
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      current.crc = updateCrc32(current.crc, bytes);
+      current.size += bytes.length;
+      await writeBytes(bytes);
+    },
+
+    async endFile() {
+      if (!current) throw new Error('No ZIP entry started.');
+      const descriptor = new Uint8Array(16);
+      const view = new DataView(descriptor.buffer);
+      view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+      view.setUint32(4, current.crc, true);
+      view.setUint32(8, current.size, true);
+      view.setUint32(12, current.size, true);
+      await writeBytes(descriptor);
+      entries.push(current);
+      current = null;
+    },
+
+    async close() {
+      if (current) throw new Error('Last ZIP entry was not ended.');
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        const record = new Uint8Array(46 + entry.nameBytes.length);
+        const view = new DataView(record.buffer);
+        view.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+        view.setUint16(4, ZIP_VERSION, true);
+        view.setUint16(6, ZIP_VERSION, true);
+        view.setUint16(8, entry.flags, true);
+        view.setUint16(10, 0, true);
+        view.setUint16(12, time, true);
+        view.setUint16(14, date, true);
+        view.setUint32(16, entry.crc, true);
+        view.setUint32(20, entry.size, true);
+        view.setUint32(24, entry.size, true);
+        view.setUint16(28, entry.nameBytes.length, true);
+        view.setUint32(42, entry.offset, true);
+        record.set(entry.nameBytes, 46);
+        await writeBytes(record);
+      }
+
+      const end = new Uint8Array(22);
+      const view = new DataView(end.buffer);
+      view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+      view.setUint16(8, entries.length, true);
+      view.setUint16(10, entries.length, true);
+      view.setUint32(12, offset - directoryOffset, true);
+      view.setUint32(16, directoryOffset, true);
+      await writeBytes(end);
+      await sink.close();
+    },
+  };
+}